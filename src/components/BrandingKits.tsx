@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Stamp, Trash2, Plus, Film } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandingKits } from "@/hooks/use-branding-kits";
+import { supabase } from "@/integrations/supabase/client";
+import type { WatermarkPosition } from "@/lib/branding";
+
+const POSITIONS: [WatermarkPosition, string][] = [
+  ["top-left", "Top left"],
+  ["top-right", "Top right"],
+  ["bottom-left", "Bottom left"],
+  ["bottom-right", "Bottom right"],
+];
+
+const positionLabel = (position: string) => POSITIONS.find(([value]) => value === position)?.[1] ?? position;
+
+export const BrandingKits = () => {
+  const { kits, refresh } = useBrandingKits();
+  const [name, setName] = useState("");
+  const [logo, setLogo] = useState<File | null>(null);
+  const [position, setPosition] = useState<WatermarkPosition>("bottom-right");
+  const [opacity, setOpacity] = useState(0.8);
+  const [scale, setScale] = useState(0.12);
+  const [intro, setIntro] = useState<File | null>(null);
+  const [outro, setOutro] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Remounts the file inputs, which cannot be cleared through their value
+  const [formKey, setFormKey] = useState(0);
+  const { toast } = useToast();
+
+  const createKit = async () => {
+    setSaving(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // Assets live next to the user's sources; jobs keep their URLs, so they outlive the kit
+      const uploadAsset = async (file: File | null, kind: string) => {
+        if (!file) return null;
+        const path = `${user.id}/branding/${Date.now()}_${kind}.${file.name.split(".").pop()}`;
+        const { error } = await supabase.storage.from("source-files").upload(path, file, { contentType: file.type });
+        if (error) throw error;
+        return supabase.storage.from("source-files").getPublicUrl(path).data.publicUrl;
+      };
+
+      const { error } = await supabase.from("branding_kits").insert({
+        user_id: user.id,
+        name: name.trim(),
+        logo_url: await uploadAsset(logo, "logo"),
+        logo_position: position,
+        logo_opacity: opacity,
+        logo_scale: scale,
+        intro_url: await uploadAsset(intro, "intro"),
+        outro_url: await uploadAsset(outro, "outro"),
+      });
+      if (error) throw error;
+
+      toast({ title: "Branding kit saved", description: name.trim() });
+      setName("");
+      setLogo(null);
+      setIntro(null);
+      setOutro(null);
+      setFormKey((key) => key + 1);
+      await refresh();
+    } catch (error) {
+      console.error("Branding kit error:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save branding kit",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteKit = async (id: string) => {
+    const { error } = await supabase.from("branding_kits").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: "Failed to delete branding kit", variant: "destructive" });
+      return;
+    }
+    await refresh();
+  };
+
+  const canSave = name.trim() !== "" && (logo || intro || outro) && !saving;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Stamp className="w-5 h-5" />
+            New Branding Kit
+          </CardTitle>
+          <CardDescription>
+            A watermark logo and optional intro/outro clips that jobs can apply before packaging
+          </CardDescription>
+        </CardHeader>
+        <CardContent key={formKey} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="kit-name">Name</Label>
+            <Input id="kit-name" value={name} onChange={(e) => setName(e.target.value)} disabled={saving} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kit-logo">Logo (PNG with transparency, or JPEG)</Label>
+            <Input
+              id="kit-logo"
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={(e) => setLogo(e.target.files?.[0] ?? null)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kit-position">Position</Label>
+            <Select value={position} onValueChange={(value) => setPosition(value as WatermarkPosition)} disabled={saving}>
+              <SelectTrigger id="kit-position">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {POSITIONS.map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Opacity: {Math.round(opacity * 100)}%</Label>
+              <Slider
+                min={10}
+                max={100}
+                step={5}
+                value={[Math.round(opacity * 100)]}
+                onValueChange={([value]) => setOpacity(value / 100)}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Logo width: {Math.round(scale * 100)}% of the frame</Label>
+              <Slider
+                min={5}
+                max={50}
+                step={1}
+                value={[Math.round(scale * 100)]}
+                onValueChange={([value]) => setScale(value / 100)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kit-intro">Intro clip</Label>
+            <Input
+              id="kit-intro"
+              type="file"
+              accept="video/*"
+              onChange={(e) => setIntro(e.target.files?.[0] ?? null)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kit-outro">Outro clip</Label>
+            <Input
+              id="kit-outro"
+              type="file"
+              accept="video/*"
+              onChange={(e) => setOutro(e.target.files?.[0] ?? null)}
+              disabled={saving}
+            />
+          </div>
+          <div className="sm:col-span-2 flex justify-end">
+            <Button onClick={createKit} disabled={!canSave}>
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Saving..." : "Save Kit"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {kits.length > 0 && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            {kits.map((kit) => (
+              <div key={kit.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted">
+                <div className="flex items-center gap-3 min-w-0">
+                  {kit.logo_url ? (
+                    <img src={kit.logo_url} alt="" className="h-8 w-16 object-contain" />
+                  ) : (
+                    <Film className="h-8 w-16 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{kit.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {kit.logo_url
+                        ? `${positionLabel(kit.logo_position)} • ${Math.round(kit.logo_opacity * 100)}% opacity • ${Math.round(kit.logo_scale * 100)}% wide`
+                        : "No watermark"}
+                      {kit.intro_url && " • Intro"}
+                      {kit.outro_url && " • Outro"}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => deleteKit(kit.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,28 @@
 import { useState, useCallback } from "react";
-import { Upload, Film, X } from "lucide-react";
+import { Upload, Film, X, Captions, GripVertical, Combine } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SourceFile } from "@/lib/concatSources";
+
+// SAMPLE-AES (CENC) is only packaged for formats with a DASH manifest
+const SAMPLE_AES_FORMATS = ["dash", "cmaf"];
+
+const isCaptionFile = (file: File) => /\.(srt|vtt)$/i.test(file.name);
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, "");
+
+// Sidecars belong to the media file sharing their base name: "movie.mp4" <- "movie.srt", "movie.en.vtt"
+const matchesMedia = (caption: File, media: File) => {
+  const base = baseName(media.name);
+  const captionBase = baseName(caption.name);
+  return captionBase === base || captionBase.startsWith(`${base}.`);
+};
 
 interface BulkUploadProps {
   onUploadComplete: () => void;
@@ -15,11 +33,16 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
   const [files, setFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  // Merge mode submits every media file as one job, in list order
+  const [merge, setMerge] = useState(false);
+  const [outputFormat, setOutputFormat] = useState("hls");
+  const [encryption, setEncryption] = useState("none");
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
   const { toast } = useToast();
 
   const validateFile = (file: File): boolean => {
-    const allowedTypes = ["video/mp4", "video/quicktime", "audio/mpeg", "audio/mp3", "video/x-matroska", "video/webm"];
-    return allowedTypes.includes(file.type) || /\.(mp4|mov|mp3|mkv|webm)$/i.test(file.name);
+    const allowedTypes = ["video/mp4", "video/quicktime", "audio/mpeg", "audio/mp3", "audio/wav", "audio/x-wav", "audio/aac", "audio/mp4", "audio/x-m4a", "audio/flac", "video/x-matroska", "video/webm"];
+    return allowedTypes.includes(file.type) || /\.(mp4|mov|mp3|wav|m4a|aac|flac|mkv|webm|srt|vtt)$/i.test(file.name);
   };
 
   const handleAddFiles = useCallback((newFiles: FileList | null) => {
@@ -39,7 +62,7 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
     if (invalidFiles.length > 0) {
       toast({
         title: "Invalid files",
-        description: `${invalidFiles.length} file(s) skipped. Only MP4, MOV, MP3, MKV, WebM supported.`,
+        description: `${invalidFiles.length} file(s) skipped. Only MP4, MOV, MKV, WebM, MP3, WAV, M4A, AAC, FLAC, SRT, VTT supported.`,
         variant: "destructive",
       });
     }
@@ -57,10 +80,64 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const moveFile = (from: number, to: number) => {
+    setFiles((prev) => {
+      const next = [...prev];
+      const [file] = next.splice(from, 1);
+      next.splice(to, 0, file);
+      return next;
+    });
+  };
+
+  // Uploads a media file and the sidecar subtitles named after it; null when the media upload fails
+  const uploadWithCaptions = async (userId: string, file: File, i: number, captionFiles: File[]) => {
+    const fileExt = file.name.split(".").pop();
+    const fileName = `${userId}/${Date.now()}_${i}.${fileExt}`;
+    const { error: uploadError } = await supabase.storage
+      .from("source-files")
+      .upload(fileName, file);
+
+    if (uploadError) {
+      console.error(`Upload error for ${file.name}:`, uploadError);
+      return null;
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from("source-files").getPublicUrl(fileName);
+
+    const captionSources = [];
+    for (const [j, caption] of captionFiles.filter((c) => matchesMedia(c, file)).entries()) {
+      const format = caption.name.split(".").pop()!.toLowerCase();
+      const captionPath = `${userId}/${Date.now()}_${i}_${j}.${format}`;
+      const { error: captionError } = await supabase.storage
+        .from("source-files")
+        .upload(captionPath, caption, { contentType: format === "vtt" ? "text/vtt" : "application/x-subrip" });
+      if (captionError) {
+        console.error(`Upload error for ${caption.name}:`, captionError);
+        continue;
+      }
+      const language = baseName(caption.name)
+        .slice(baseName(file.name).length + 1)
+        .split(".")
+        .find((p) => /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(p));
+      captionSources.push({
+        url: supabase.storage.from("source-files").getPublicUrl(captionPath).data.publicUrl,
+        format,
+        filename: caption.name,
+        language,
+      });
+    }
+
+    return { url: publicUrl, captionSources };
+  };
+
   const handleBulkUpload = async () => {
-    if (files.length === 0) return;
+    const mediaFiles = files.filter((f) => !isCaptionFile(f));
+    const captionFiles = files.filter(isCaptionFile);
+    if (mediaFiles.length === 0) return;
 
-    if (files.length > 100) {
+    if (mediaFiles.length > 100) {
       toast({
         title: "Too many files",
         description: "Maximum 100 files per batch",
@@ -80,27 +157,12 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
       if (!user) throw new Error("Not authenticated");
 
       const jobIds: string[] = [];
-      const totalFiles = files.length;
-
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Upload to storage
-        const fileExt = file.name.split(".").pop();
-        const fileName = `${user.id}/${Date.now()}_${i}.${fileExt}`;
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from("source-files")
-          .upload(fileName, file);
-
-        if (uploadError) {
-          console.error(`Upload error for ${file.name}:`, uploadError);
-          continue;
-        }
+      const totalFiles = mediaFiles.length;
 
-        // Get public URL
-        const {
-          data: { publicUrl },
-        } = supabase.storage.from("source-files").getPublicUrl(fileName);
+      for (let i = 0; i < mediaFiles.length; i++) {
+        const file = mediaFiles[i];
+        const uploaded = await uploadWithCaptions(user.id, file, i, captionFiles);
+        if (!uploaded) continue;
 
         // Create transcoding job
         const { data: job, error: jobError } = await supabase
@@ -108,9 +170,11 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
           .insert({
             user_id: user.id,
             original_filename: file.name,
-            input_file_url: publicUrl,
-            output_format: "hls",
+            input_file_url: uploaded.url,
+            output_format: outputFormat,
             status: "pending",
+            encryption,
+            caption_sources: uploaded.captionSources,
           })
           .select()
           .single();
@@ -155,6 +219,90 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
     }
   };
 
+  const changeOutputFormat = (format: string) => {
+    setOutputFormat(format);
+    if (!SAMPLE_AES_FORMATS.includes(format)) setEncryption((current) => (current === "sample-aes" ? "none" : current));
+  };
+
+  const handleMergeUpload = async () => {
+    const mediaFiles = files.filter((f) => !isCaptionFile(f));
+    const captionFiles = files.filter(isCaptionFile);
+    if (mediaFiles.length < 2) {
+      toast({
+        title: "Not enough files",
+        description: "Add at least two media files to merge",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    setUploadProgress(0);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("Not authenticated");
+
+      // A merged job needs every source, a failed upload fails the whole merge
+      const sourceFiles: SourceFile[] = [];
+      const captionSources = [];
+      for (let i = 0; i < mediaFiles.length; i++) {
+        const file = mediaFiles[i];
+        const uploaded = await uploadWithCaptions(user.id, file, i, captionFiles);
+        if (!uploaded) throw new Error(`Failed to upload ${file.name}`);
+        sourceFiles.push({ url: uploaded.url, filename: file.name, sizeBytes: file.size });
+        captionSources.push(...uploaded.captionSources.map((caption) => ({ ...caption, sourceIndex: i })));
+        setUploadProgress(Math.round(((i + 1) / mediaFiles.length) * 100));
+      }
+
+      const { data: job, error: jobError } = await supabase
+        .from("transcoding_jobs")
+        .insert({
+          user_id: user.id,
+          original_filename: `${mediaFiles[0].name} + ${mediaFiles.length - 1} more`,
+          input_file_url: sourceFiles[0].url,
+          output_format: outputFormat,
+          status: "pending",
+          encryption,
+          caption_sources: captionSources,
+          source_files: sourceFiles,
+        })
+        .select()
+        .single();
+
+      if (jobError) throw jobError;
+
+      try {
+        await supabase.functions.invoke("start-transcode", {
+          body: { jobId: job.id },
+        });
+      } catch (e) {
+        console.warn("Auto transcode start failed (will be retried manually):", e);
+      }
+
+      toast({
+        title: "Merge queued",
+        description: `${mediaFiles.length} files will be joined into one asset`,
+      });
+
+      setFiles([]);
+      onUploadComplete();
+    } catch (error) {
+      console.error("Merge upload error:", error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload files",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      setUploadProgress(0);
+    }
+  };
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -203,7 +351,10 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
               Drag & drop multiple files or click to select (Max 100 files)
             </p>
             <p className="text-sm text-muted-foreground">
-              Supports: MP4, MP3, MOV, MKV, WebM
+              Supports: MP4, MOV, MKV, WebM, MP3, WAV, M4A, AAC, FLAC
+            </p>
+            <p className="text-xs text-muted-foreground">
+              SRT/VTT subtitles are attached to the media file with the same name (movie.en.srt → movie.mp4)
             </p>
           </div>
 
@@ -221,7 +372,7 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
             multiple
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             onChange={handleFileInput}
-            accept="video/*,audio/*,.mp4,.mp3,.mov,.mkv,.webm"
+            accept="video/*,audio/*,.mp4,.mp3,.wav,.m4a,.aac,.flac,.mov,.mkv,.webm,.srt,.vtt"
             disabled={uploading}
           />
         </CardContent>
@@ -230,27 +381,80 @@ export const BulkUpload = ({ onUploadComplete }: BulkUploadProps) => {
       {files.length > 0 && (
         <Card>
           <CardContent className="p-4">
-            <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center justify-between gap-4 mb-4">
               <h4 className="font-semibold">
                 Selected Files ({files.length})
               </h4>
-              <Button
-                onClick={handleBulkUpload}
-                disabled={uploading || files.length === 0}
-                className="w-auto"
-              >
-                <Upload className="w-4 h-4 mr-2" />
-                Upload & Transcode All
-              </Button>
+              <div className="flex items-center gap-4">
+                <Select value={outputFormat} onValueChange={changeOutputFormat} disabled={uploading}>
+                  <SelectTrigger className="h-8 w-44" aria-label="Output format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hls">HLS</SelectItem>
+                    <SelectItem value="dash">DASH</SelectItem>
+                    <SelectItem value="cmaf">CMAF (HLS + DASH)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={encryption} onValueChange={setEncryption} disabled={uploading}>
+                  <SelectTrigger className="h-8 w-44" aria-label="Encryption">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No encryption</SelectItem>
+                    <SelectItem value="aes-128">AES-128</SelectItem>
+                    <SelectItem value="sample-aes" disabled={!SAMPLE_AES_FORMATS.includes(outputFormat)}>
+                      SAMPLE-AES / CENC (DASH, CMAF)
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch id="bulk-merge" checked={merge} onCheckedChange={setMerge} disabled={uploading} />
+                  <Label htmlFor="bulk-merge" className="text-sm text-muted-foreground">
+                    Merge into one asset
+                  </Label>
+                </div>
+                <Button
+                  onClick={merge ? handleMergeUpload : handleBulkUpload}
+                  disabled={uploading || files.length === 0}
+                  className="w-auto"
+                >
+                  {merge ? <Combine className="w-4 h-4 mr-2" /> : <Upload className="w-4 h-4 mr-2" />}
+                  {merge ? "Upload & Merge" : "Upload & Transcode All"}
+                </Button>
+              </div>
             </div>
+            {merge && (
+              <p className="text-xs text-muted-foreground mb-2">
+                Drag files to set the play order. Resolution, frame rate and audio are matched to the largest source.
+              </p>
+            )}
             <div className="space-y-2 max-h-64 overflow-y-auto">
               {files.map((file, index) => (
                 <div
-                  key={index}
-                  className="flex items-center justify-between p-3 rounded-lg bg-muted"
+                  key={`${file.name}-${file.size}-${file.lastModified}`}
+                  className={`flex items-center justify-between p-3 rounded-lg bg-muted ${
+                    dragIndex === index ? "opacity-50" : ""
+                  }`}
+                  draggable={merge && !uploading}
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(e) => {
+                    if (dragIndex === null) return;
+                    e.preventDefault();
+                    if (dragIndex !== index) {
+                      moveFile(dragIndex, index);
+                      setDragIndex(index);
+                    }
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
                 >
                   <div className="flex items-center gap-3 flex-1 min-w-0">
-                    <Film className="w-5 h-5 flex-shrink-0 text-primary" />
+                    {merge && <GripVertical className="w-4 h-4 flex-shrink-0 text-muted-foreground cursor-grab" />}
+                    {isCaptionFile(file) ? (
+                      <Captions className="w-5 h-5 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Film className="w-5 h-5 flex-shrink-0 text-primary" />
+                    )}
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium truncate">{file.name}</p>
                       <p className="text-xs text-muted-foreground">
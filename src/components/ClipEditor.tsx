@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeftToLine, ArrowRightToLine, Trash2, Scissors } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatClipTime, normalizeClipRanges, type ClipRange } from "@/lib/clipRanges";
+
+interface ClipEditorProps {
+  file: File;
+  ranges: ClipRange[];
+  onChange: (ranges: ClipRange[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Plays a local source so in and out points can be marked on it. Every in/out pair adds a range;
+ * overlapping ranges are merged and the job keeps them in source order.
+ */
+export const ClipEditor = ({ file, ranges, onChange, disabled }: ClipEditorProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [inPoint, setInPoint] = useState<number | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setDuration(null);
+    setInPoint(null);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const currentTime = () => videoRef.current?.currentTime ?? 0;
+
+  const markOut = () => {
+    const start = inPoint ?? 0;
+    const end = currentTime();
+    if (end <= start) return;
+    onChange(normalizeClipRanges([...ranges, { start, end }], duration));
+    setInPoint(null);
+  };
+
+  const seek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  const kept = ranges.reduce((a, r) => a + (r.end - r.start), 0);
+
+  return (
+    <div className="space-y-3">
+      {url && (
+        <video
+          ref={videoRef}
+          src={url}
+          controls
+          className="w-full max-h-72 rounded-lg bg-black"
+          onLoadedMetadata={(e) => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : null)}
+        />
+      )}
+
+      {duration !== null && (
+        <div className="relative h-2 rounded bg-muted overflow-hidden" aria-hidden>
+          {ranges.map((range) => (
+            <div
+              key={`${range.start}-${range.end}`}
+              className="absolute inset-y-0 bg-primary"
+              style={{ left: `${(range.start / duration) * 100}%`, width: `${((range.end - range.start) / duration) * 100}%` }}
+            />
+          ))}
+          {inPoint !== null && (
+            <div className="absolute inset-y-0 w-0.5 bg-destructive" style={{ left: `${(inPoint / duration) * 100}%` }} />
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => setInPoint(currentTime())} disabled={disabled}>
+          <ArrowRightToLine className="w-4 h-4 mr-1" />
+          Mark in
+        </Button>
+        <Button size="sm" variant="outline" onClick={markOut} disabled={disabled}>
+          <ArrowLeftToLine className="w-4 h-4 mr-1" />
+          Mark out
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {inPoint !== null
+            ? `In at ${formatClipTime(inPoint)}, play to the out point`
+            : ranges.length > 0
+              ? `${ranges.length} range(s), ${formatClipTime(kept)} kept`
+              : "No ranges marked, the whole source is kept"}
+        </span>
+      </div>
+
+      {ranges.length > 0 && (
+        <div className="space-y-1">
+          {ranges.map((range, i) => (
+            <div key={`${range.start}-${range.end}`} className="flex items-center justify-between gap-2 p-2 rounded bg-muted text-sm">
+              <button type="button" className="flex items-center gap-2 hover:text-primary" onClick={() => seek(range.start)}>
+                <Scissors className="w-3 h-3" />
+                {formatClipTime(range.start)} – {formatClipTime(range.end)}
+                <span className="text-xs text-muted-foreground">({formatClipTime(range.end - range.start)})</span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onChange(ranges.filter((_, j) => j !== i))}
+                disabled={disabled}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
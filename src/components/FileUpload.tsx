@@ -1,8 +1,31 @@
 import { useState, useCallback } from "react";
-import { Upload, Film } from "lucide-react";
+import { Upload, Film, Lock, AudioLines, SlidersHorizontal, Stamp, Scissors } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ClipEditor } from "@/components/ClipEditor";
 import { useToast } from "@/hooks/use-toast";
+import { useBrandingKits } from "@/hooks/use-branding-kits";
 import { supabase } from "@/integrations/supabase/client";
+import { brandingSnapshot } from "@/lib/branding";
+import type { ClipRange } from "@/lib/clipRanges";
+import { DEFAULT_LOUDNESS_TARGET, type LoudnessTarget } from "@/lib/loudness";
+import { DEFAULT_VIDEO_FILTERS, type VideoFilterOptions } from "@/lib/videoFilters";
+
+// SAMPLE-AES (CENC) is only packaged for formats with a DASH manifest
+const SAMPLE_AES_FORMATS = ["dash", "cmaf"];
+
+const isCaptionFile = (file: File) => /\.(srt|vtt)$/i.test(file.name);
+
+// "movie.en.srt" -> { language: "en" }, "movie.srt" -> { language: undefined }
+const captionMeta = (name: string) => {
+  const parts = name.split(".").slice(1, -1);
+  const language = parts.find((p) => /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(p));
+  return { language };
+};
 
 interface FileUploadProps {
   onUploadComplete: () => void;
@@ -11,18 +34,49 @@ interface FileUploadProps {
 export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [outputFormat, setOutputFormat] = useState("hls");
+  const [encryption, setEncryption] = useState("none");
+  const [normalizeLoudness, setNormalizeLoudness] = useState(false);
+  const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTarget>(DEFAULT_LOUDNESS_TARGET);
+  const [videoFilters, setVideoFilters] = useState<VideoFilterOptions>(DEFAULT_VIDEO_FILTERS);
+  const [brandingKitId, setBrandingKitId] = useState("none");
+  const [trimSource, setTrimSource] = useState(false);
+  // Files held back for the clip editor until the ranges are marked
+  const [staged, setStaged] = useState<File[] | null>(null);
+  const [clipRanges, setClipRanges] = useState<ClipRange[]>([]);
+  const { kits } = useBrandingKits();
   const { toast } = useToast();
 
+  const brandingKit = kits.find((kit) => kit.id === brandingKitId);
+
+  const stagedMedia = staged?.find((f) => !isCaptionFile(f));
+
+  const changeOutputFormat = (format: string) => {
+    setOutputFormat(format);
+    if (!SAMPLE_AES_FORMATS.includes(format)) setEncryption((current) => (current === "sample-aes" ? "none" : current));
+  };
+
   const handleUpload = useCallback(
-    async (file: File) => {
-      if (!file) return;
+    async (selected: File[], ranges: ClipRange[] = []) => {
+      const file = selected.find((f) => !isCaptionFile(f));
+      const captionFiles = selected.filter(isCaptionFile);
+      if (!file) {
+        if (captionFiles.length > 0) {
+          toast({
+            title: "Missing media file",
+            description: "Drop subtitle files (SRT, VTT) together with the video or audio they belong to",
+            variant: "destructive",
+          });
+        }
+        return;
+      }
 
       // Validate file type
-      const allowedTypes = ["video/mp4", "video/quicktime", "audio/mpeg", "audio/mp3", "video/x-matroska", "video/webm"];
-      if (!allowedTypes.includes(file.type) && !file.name.match(/\.(mp4|mov|mp3|mkv|webm)$/i)) {
+      const allowedTypes = ["video/mp4", "video/quicktime", "audio/mpeg", "audio/mp3", "audio/wav", "audio/x-wav", "audio/aac", "audio/mp4", "audio/x-m4a", "audio/flac", "video/x-matroska", "video/webm"];
+      if (!allowedTypes.includes(file.type) && !file.name.match(/\.(mp4|mov|mp3|wav|m4a|aac|flac|mkv|webm)$/i)) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a valid video or audio file (MP4, MOV, MP3, MKV, WebM)",
+          description: "Please upload a valid video or audio file (MP4, MOV, MKV, WebM, MP3, WAV, M4A, AAC, FLAC)",
           variant: "destructive",
         });
         return;
@@ -51,14 +105,38 @@ export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
           data: { publicUrl },
         } = supabase.storage.from("source-files").getPublicUrl(fileName);
 
+        // Upload sidecar subtitles next to the source
+        const captionSources = await Promise.all(
+          captionFiles.map(async (caption, i) => {
+            const format = caption.name.split(".").pop()!.toLowerCase();
+            const captionPath = `${user.id}/${Date.now()}_${i}.${format}`;
+            const { error: captionError } = await supabase.storage
+              .from("source-files")
+              .upload(captionPath, caption, { contentType: format === "vtt" ? "text/vtt" : "application/x-subrip" });
+            if (captionError) throw captionError;
+            return {
+              url: supabase.storage.from("source-files").getPublicUrl(captionPath).data.publicUrl,
+              format,
+              filename: caption.name,
+              ...captionMeta(caption.name),
+            };
+          })
+        );
+
         const { data: job, error: jobError } = await supabase
           .from("transcoding_jobs")
           .insert({
             user_id: user.id,
             original_filename: file.name,
             input_file_url: publicUrl,
-            output_format: "hls",
+            output_format: outputFormat,
             status: "pending",
+            caption_sources: captionSources,
+            encryption,
+            loudness_target: normalizeLoudness ? loudnessTarget : null,
+            video_filters: videoFilters,
+            branding: brandingKit ? brandingSnapshot(brandingKit) : null,
+            clip_ranges: ranges.length > 0 ? ranges : null,
           })
           .select()
           .single();
@@ -76,9 +154,14 @@ export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
 
         toast({
           title: "Upload successful",
-          description: "Your file has been queued for transcoding",
+          description:
+            captionSources.length > 0
+              ? `Your file and ${captionSources.length} subtitle file(s) have been queued for transcoding`
+              : "Your file has been queued for transcoding",
         });
 
+        setStaged(null);
+        setClipRanges([]);
         onUploadComplete();
       } catch (error: any) {
         console.error("Upload error:", error);
@@ -91,66 +174,254 @@ export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
         setUploading(false);
       }
     },
-    [toast, onUploadComplete]
+    [toast, onUploadComplete, outputFormat, encryption, normalizeLoudness, loudnessTarget, videoFilters, brandingKit]
+  );
+
+  // With trimming on, a media file opens in the clip editor and is uploaded from there
+  const handleSelect = useCallback(
+    (files: File[]) => {
+      if (files.length === 0) return;
+      if (trimSource && files.some((f) => !isCaptionFile(f))) {
+        setStaged(files);
+        setClipRanges([]);
+        return;
+      }
+      handleUpload(files);
+    },
+    [trimSource, handleUpload]
   );
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-
-      const file = e.dataTransfer.files[0];
-      if (file) handleUpload(file);
+      handleSelect(Array.from(e.dataTransfer.files));
     },
-    [handleUpload]
+    [handleSelect]
   );
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) handleUpload(file);
+      handleSelect(Array.from(e.target.files ?? []));
     },
-    [handleUpload]
+    [handleSelect]
   );
 
   return (
-    <Card
-      className={`relative border-2 border-dashed transition-all duration-300 ${
-        isDragging ? "border-primary bg-primary/5 scale-105" : "border-border hover:border-primary/50"
-      } ${uploading ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
-      onDragOver={(e) => {
-        e.preventDefault();
-        setIsDragging(true);
-      }}
-      onDragLeave={() => setIsDragging(false)}
-      onDrop={handleDrop}
-    >
-      <CardContent className="flex flex-col items-center justify-center p-12 space-y-4">
-        <div className="p-6 rounded-full bg-primary/10 animate-gradient bg-gradient-to-br from-primary to-primary-glow">
-          {uploading ? (
-            <Film className="w-12 h-12 text-primary animate-pulse" />
-          ) : (
-            <Upload className="w-12 h-12 text-primary" />
-          )}
-        </div>
-
-        <div className="text-center space-y-2">
-          <h3 className="text-xl font-semibold">
-            {uploading ? "Uploading..." : isDragging ? "Drop your file here" : "Upload Media File"}
-          </h3>
-          <p className="text-muted-foreground">
-            Drag & drop or click to upload MP4, MP3, MOV, MKV, or WebM files
-          </p>
-        </div>
-
-        <input
-          type="file"
-          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          onChange={handleFileInput}
-          accept="video/*,audio/*,.mp4,.mp3,.mov,.mkv,.webm"
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <Label htmlFor="upload-format" className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Film className="w-3 h-3" />
+          Format
+        </Label>
+        <Select value={outputFormat} onValueChange={changeOutputFormat} disabled={uploading}>
+          <SelectTrigger id="upload-format" className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="hls">HLS</SelectItem>
+            <SelectItem value="dash">DASH</SelectItem>
+            <SelectItem value="cmaf">CMAF (HLS + DASH)</SelectItem>
+          </SelectContent>
+        </Select>
+        <Label htmlFor="upload-encryption" className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Lock className="w-3 h-3" />
+          Encryption
+        </Label>
+        <Select value={encryption} onValueChange={setEncryption} disabled={uploading}>
+          <SelectTrigger id="upload-encryption" className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None (public)</SelectItem>
+            <SelectItem value="aes-128">AES-128</SelectItem>
+            <SelectItem value="sample-aes" disabled={!SAMPLE_AES_FORMATS.includes(outputFormat)}>
+              SAMPLE-AES / CENC (DASH, CMAF)
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Label htmlFor="upload-branding" className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Stamp className="w-3 h-3" />
+          Branding
+        </Label>
+        <Select value={brandingKitId} onValueChange={setBrandingKitId} disabled={uploading}>
+          <SelectTrigger id="upload-branding" className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            {kits.map((kit) => (
+              <SelectItem key={kit.id} value={kit.id}>
+                {kit.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Label htmlFor="upload-trim" className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Scissors className="w-3 h-3" />
+          Trim before upload
+        </Label>
+        <Switch id="upload-trim" checked={trimSource} onCheckedChange={setTrimSource} disabled={uploading || !!staged} />
+        <Label htmlFor="upload-loudness" className="flex items-center gap-1 text-sm text-muted-foreground">
+          <AudioLines className="w-3 h-3" />
+          Loudness (EBU R128)
+        </Label>
+        <Switch
+          id="upload-loudness"
+          checked={normalizeLoudness}
+          onCheckedChange={setNormalizeLoudness}
           disabled={uploading}
         />
-      </CardContent>
-    </Card>
+        {normalizeLoudness &&
+          (
+            [
+              ["integrated", "LUFS", -70, -5],
+              ["truePeak", "dBTP", -9, 0],
+              ["lra", "LRA", 1, 20],
+            ] as const
+          ).map(([key, unit, min, max]) => (
+            <div key={key} className="flex items-center gap-1">
+              <Input
+                type="number"
+                step={key === "truePeak" ? 0.1 : 1}
+                min={min}
+                max={max}
+                value={loudnessTarget[key]}
+                onChange={(e) => {
+                  const value = e.target.valueAsNumber;
+                  if (Number.isFinite(value)) setLoudnessTarget((target) => ({ ...target, [key]: value }));
+                }}
+                // loudnorm rejects targets outside its ranges
+                onBlur={() =>
+                  setLoudnessTarget((target) => ({ ...target, [key]: Math.min(max, Math.max(min, target[key])) }))
+                }
+                disabled={uploading}
+                className="h-8 w-20"
+                aria-label={unit}
+              />
+              <span className="text-xs text-muted-foreground">{unit}</span>
+            </div>
+          ))}
+      </div>
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+          <SlidersHorizontal className="w-3 h-3" />
+          Video filters
+        </span>
+        {(
+          [
+            ["autoCrop", "Auto-crop"],
+            ["constantFrameRate", "Constant frame rate"],
+          ] as const
+        ).map(([key, label]) => (
+          <div key={key} className="flex items-center gap-1">
+            <Switch
+              id={`upload-${key}`}
+              checked={videoFilters[key]}
+              onCheckedChange={(checked) => setVideoFilters((filters) => ({ ...filters, [key]: checked }))}
+              disabled={uploading}
+            />
+            <Label htmlFor={`upload-${key}`} className="text-xs text-muted-foreground">
+              {label}
+            </Label>
+          </div>
+        ))}
+        <Select
+          value={videoFilters.deinterlace}
+          onValueChange={(value) =>
+            setVideoFilters((filters) => ({ ...filters, deinterlace: value as VideoFilterOptions["deinterlace"] }))
+          }
+          disabled={uploading}
+        >
+          <SelectTrigger className="h-8 w-40" aria-label="Deinterlace">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="bwdif">Deinterlace: bwdif</SelectItem>
+            <SelectItem value="yadif">Deinterlace: yadif</SelectItem>
+            <SelectItem value="off">Deinterlace: off</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={videoFilters.denoise}
+          onValueChange={(value) =>
+            setVideoFilters((filters) => ({ ...filters, denoise: value as VideoFilterOptions["denoise"] }))
+          }
+          disabled={uploading}
+        >
+          <SelectTrigger className="h-8 w-36" aria-label="Denoise">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">Denoise: off</SelectItem>
+            <SelectItem value="light">Denoise: light</SelectItem>
+            <SelectItem value="medium">Denoise: medium</SelectItem>
+            <SelectItem value="strong">Denoise: strong</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {staged && stagedMedia ? (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <p className="text-sm font-medium truncate">{stagedMedia.name}</p>
+            <ClipEditor file={stagedMedia} ranges={clipRanges} onChange={setClipRanges} disabled={uploading} />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setStaged(null)} disabled={uploading}>
+                Cancel
+              </Button>
+              <Button onClick={() => handleUpload(staged, clipRanges)} disabled={uploading}>
+                <Upload className="w-4 h-4 mr-2" />
+                {uploading ? "Uploading..." : clipRanges.length > 0 ? "Upload Ranges" : "Upload Whole Source"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card
+          className={`relative border-2 border-dashed transition-all duration-300 ${
+            isDragging ? "border-primary bg-primary/5 scale-105" : "border-border hover:border-primary/50"
+          } ${uploading ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          <CardContent className="flex flex-col items-center justify-center p-12 space-y-4">
+            <div className="p-6 rounded-full bg-primary/10 animate-gradient bg-gradient-to-br from-primary to-primary-glow">
+              {uploading ? (
+                <Film className="w-12 h-12 text-primary animate-pulse" />
+              ) : (
+                <Upload className="w-12 h-12 text-primary" />
+              )}
+            </div>
+
+            <div className="text-center space-y-2">
+              <h3 className="text-xl font-semibold">
+                {uploading ? "Uploading..." : isDragging ? "Drop your file here" : "Upload Media File"}
+              </h3>
+              <p className="text-muted-foreground">
+                Drag & drop or click to upload video (MP4, MOV, MKV, WebM) or audio (MP3, WAV, M4A, AAC, FLAC) files
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Add SRT or VTT subtitles alongside the media (e.g. movie.en.srt) to include caption tracks
+              </p>
+            </div>
+
+            <input
+              type="file"
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              onChange={handleFileInput}
+              accept="video/*,audio/*,.mp4,.mp3,.wav,.m4a,.aac,.flac,.mov,.mkv,.webm,.srt,.vtt"
+              multiple
+              disabled={uploading}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
   );
 };
@@ -4,18 +4,35 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
-import { Clock, CheckCircle, XCircle, Loader2, Eye, Trash2 } from "lucide-react";
+import { Clock, CheckCircle, XCircle, Loader2, Eye, Trash2, Music, Lock, Ban, CircleStop, Stamp, Scissors, Combine } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { TranscodeButton } from "./TranscodeButton";
 import { VideoPreview } from "./VideoPreview";
+import type { MediaProbe } from "@/lib/mediaProbe";
+import type { HlsCheckpoint } from "@/lib/chunkedTranscode";
+import type { BrandingKit } from "@/lib/branding";
+import type { Chapter } from "@/lib/chapters";
+import type { ClipRange } from "@/lib/clipRanges";
+import type { SourceFile } from "@/lib/concatSources";
+import type { LoudnessReport } from "@/lib/loudness";
+import type { VideoFilterPipeline } from "@/lib/videoFilters";
+import { cancelTranscode, removeJobOutputs } from "@/lib/transcodeControl";
 
 interface ResolutionVariant {
   resolution: string;
-  width: number;
-  height: number;
+  width: number | null;
+  height: number | null;
   bitrate: number;
   url: string;
   size_bytes: number;
+  dash_url?: string;
+}
+
+interface PosterVariant {
+  url: string;
+  width: number;
+  height: number;
+  format: "jpeg" | "webp";
 }
 
 interface Job {
@@ -30,6 +47,22 @@ interface Job {
   resolution_variants: ResolutionVariant[] | null;
   total_size_bytes: number | null;
   estimated_duration: number | null;
+  media_info: MediaProbe | null;
+  thumbnails_vtt_url: string | null;
+  waveform_url: string | null;
+  poster_url: string | null;
+  poster_variants: PosterVariant[] | null;
+  encryption: string;
+  processing_node: string | null;
+  updated_at: string;
+  checkpoint: HlsCheckpoint | null;
+  loudness_report: LoudnessReport | null;
+  video_filter_pipeline: VideoFilterPipeline | null;
+  branding: BrandingKit | null;
+  clip_ranges: ClipRange[] | null;
+  source_files: SourceFile[] | null;
+  chapters: Chapter[] | null;
+  chapters_vtt_url: string | null;
 }
 
 export const JobQueue = () => {
@@ -103,6 +136,38 @@ export const JobQueue = () => {
     }
   };
 
+  const cancelJob = async (jobId: string) => {
+    try {
+      // A transcode running in this tab cleans up its own partial uploads once FFmpeg is stopped
+      const runningHere = cancelTranscode(jobId);
+
+      const { error } = await supabase
+        .from("transcoding_jobs")
+        .update({ status: "cancelled", progress: 0, checkpoint: null })
+        .eq("id", jobId);
+      if (error) throw error;
+
+      // Otherwise the job was left behind by a closed tab or runs on the server, which polls the status
+      if (!runningHere) {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (user) await removeJobOutputs(user.id, jobId);
+        toast({
+          title: "Job cancelled",
+          description: "Partial outputs were removed",
+        });
+      }
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel job",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "pending":
@@ -113,6 +178,8 @@ export const JobQueue = () => {
         return <CheckCircle className="w-4 h-4" />;
       case "failed":
         return <XCircle className="w-4 h-4" />;
+      case "cancelled":
+        return <Ban className="w-4 h-4" />;
       default:
         return <Clock className="w-4 h-4" />;
     }
@@ -128,11 +195,18 @@ export const JobQueue = () => {
         return "bg-success text-white";
       case "failed":
         return "bg-destructive text-destructive-foreground";
+      case "cancelled":
+        return "bg-warning text-white";
       default:
         return "bg-muted text-muted-foreground";
     }
   };
 
+  const isAudioJob = (job: Job) => {
+    if (job.media_info) return !job.media_info.hasVideo;
+    return !!job.resolution_variants?.length && job.resolution_variants.every((v) => !v.width);
+  };
+
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -179,11 +253,36 @@ export const JobQueue = () => {
         {jobs.map((job) => (
           <div key={job.id} className="p-4 rounded-lg border bg-card space-y-3">
             <div className="flex items-start justify-between gap-4">
+              <JobThumbnail job={job} isAudio={isAudioJob(job)} />
               <div className="flex-1 min-w-0">
-                <h4 className="font-medium truncate">{job.original_filename}</h4>
-                <p className="text-sm text-muted-foreground">
+                <h4 className="font-medium truncate flex items-center gap-2">
+                  {isAudioJob(job) && <Music className="w-4 h-4 flex-shrink-0 text-muted-foreground" />}
+                  {job.original_filename}
+                </h4>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
                   Format: {job.output_format.toUpperCase()} • {new Date(job.created_at).toLocaleString()}
+                  {job.encryption !== "none" && (
+                    <span className="flex items-center gap-1">
+                      • <Lock className="w-3 h-3" /> {job.encryption.toUpperCase()}
+                    </span>
+                  )}
+                  {job.branding && (
+                    <span className="flex items-center gap-1">
+                      • <Stamp className="w-3 h-3" /> {job.branding.name}
+                    </span>
+                  )}
+                  {job.clip_ranges && job.clip_ranges.length > 0 && (
+                    <span className="flex items-center gap-1">
+                      • <Scissors className="w-3 h-3" /> {job.clip_ranges.length} range(s)
+                    </span>
+                  )}
                 </p>
+                {job.source_files && job.source_files.length > 1 && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                    <Combine className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{job.source_files.map((file) => file.filename).join(" → ")}</span>
+                  </p>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Badge className={`${getStatusColor(job.status)} flex items-center gap-1`}>
@@ -196,12 +295,29 @@ export const JobQueue = () => {
               </div>
             </div>
 
-            <TranscodeButton jobId={job.id} status={job.status} />
+            <TranscodeButton
+              jobId={job.id}
+              status={job.status}
+              processingNode={job.processing_node}
+              updatedAt={job.updated_at}
+              checkpoint={job.checkpoint}
+            />
 
             {job.status === "processing" && (
               <div className="space-y-1">
                 <Progress value={job.progress} className="h-2" />
-                <p className="text-xs text-muted-foreground text-right">{job.progress}%</p>
+                <div className="flex items-center justify-between">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-muted-foreground"
+                    onClick={() => cancelJob(job.id)}
+                  >
+                    <CircleStop className="w-3 h-3 mr-1" />
+                    Cancel
+                  </Button>
+                  <p className="text-xs text-muted-foreground">{job.progress}%</p>
+                </div>
               </div>
             )}
 
@@ -209,7 +325,9 @@ export const JobQueue = () => {
               <div className="space-y-2">
                 {job.resolution_variants && job.resolution_variants.length > 0 && (
                   <div className="text-xs space-y-1">
-                    <p className="font-medium text-muted-foreground">Available Resolutions:</p>
+                    <p className="font-medium text-muted-foreground">
+                      {isAudioJob(job) ? "Available Bitrates:" : "Available Resolutions:"}
+                    </p>
                     <div className="flex flex-wrap gap-1">
                       {job.resolution_variants.map((variant) => (
                         <Badge key={variant.resolution} variant="secondary" className="text-xs">
@@ -263,6 +381,17 @@ export const JobQueue = () => {
           filename={previewJob.original_filename}
           totalSize={previewJob.total_size_bytes || 0}
           duration={previewJob.estimated_duration || undefined}
+          mediaInfo={previewJob.media_info}
+          loudness={previewJob.loudness_report}
+          videoFilters={previewJob.video_filter_pipeline}
+          clipRanges={previewJob.clip_ranges}
+          chapters={previewJob.chapters}
+          chaptersUrl={previewJob.chapters_vtt_url}
+          thumbnailsUrl={previewJob.thumbnails_vtt_url}
+          waveformUrl={previewJob.waveform_url}
+          posterUrl={previewJob.poster_url}
+          jobId={previewJob.id}
+          encryption={previewJob.encryption}
         />
       )}
     </Card>
@@ -292,3 +421,30 @@ const Film = ({ className }: { className?: string }) => (
     <path d="M17 16.5h4" />
   </svg>
 );
+
+// Smallest poster that still covers the row thumbnail, WebP preferred where supported
+const JobThumbnail = ({ job, isAudio, minWidth = 160 }: { job: Job; isAudio: boolean; minWidth?: number }) => {
+  const variants = job.poster_variants ?? [];
+  const pick = (format: PosterVariant["format"]) =>
+    variants
+      .filter((v) => v.format === format)
+      .sort((a, b) => a.width - b.width)
+      .find((v, i, list) => v.width >= minWidth || i === list.length - 1);
+  const webp = pick("webp")?.url;
+  const jpeg = pick("jpeg")?.url ?? job.poster_url;
+
+  return (
+    <div className="w-20 aspect-video flex-shrink-0 rounded overflow-hidden bg-muted flex items-center justify-center">
+      {jpeg ? (
+        <picture className="w-full h-full">
+          {webp && <source srcSet={webp} type="image/webp" />}
+          <img src={jpeg} alt="" loading="lazy" className="w-full h-full object-cover" />
+        </picture>
+      ) : isAudio ? (
+        <Music className="w-6 h-6 text-muted-foreground" />
+      ) : (
+        <Film className="w-6 h-6 text-muted-foreground" />
+      )}
+    </div>
+  );
+};
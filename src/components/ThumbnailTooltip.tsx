@@ -0,0 +1,26 @@
+import type { ThumbnailCue } from "@/lib/thumbnails";
+
+interface ThumbnailTooltipProps {
+  cue: ThumbnailCue;
+  left: number; // horizontal position of the pointer within the track, 0..1
+  label?: string;
+}
+
+export const ThumbnailTooltip = ({ cue, left, label }: ThumbnailTooltipProps) => (
+  <div
+    className="pointer-events-none absolute bottom-full mb-3 -translate-x-1/2 z-10 rounded-md border bg-background p-1 shadow-lg"
+    style={{ left: `${Math.min(1, Math.max(0, left)) * 100}%` }}
+  >
+    <div
+      className="rounded-sm"
+      style={{
+        width: cue.w,
+        height: cue.h,
+        backgroundImage: `url("${cue.url}")`,
+        backgroundPosition: `-${cue.x}px -${cue.y}px`,
+        backgroundRepeat: "no-repeat",
+      }}
+    />
+    {label && <p className="pt-1 text-center text-xs text-muted-foreground">{label}</p>}
+  </div>
+);
@@ -1,97 +1,521 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Play } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { transcodeToHls } from "@/lib/hlsTranscoder";
+import type { BrandingKit } from "@/lib/branding";
+import { chaptersVtt, playlistTemplateName, withChapterDateranges, type ChapterDetection } from "@/lib/chapters";
+import { normalizeClipRanges, type ClipRange } from "@/lib/clipRanges";
+import { offsetCaption, type SourceFile } from "@/lib/concatSources";
+import { estimateOutputBytes, type CaptionSource } from "@/lib/hlsTranscoder";
+import type { HlsEncryption } from "@/lib/hlsEncryption";
+import { loudnessReport, type LoudnessNormalization, type LoudnessTarget } from "@/lib/loudness";
+import type { PosterOutput, ThumbnailOutput } from "@/lib/thumbnails";
+import type { WaveformOutput } from "@/lib/waveform";
+import { TranscoderClient } from "@/lib/transcoderClient";
+import {
+  checkpointFiles,
+  shouldEncodeInChunks,
+  transcodeToHlsInChunks,
+  type HlsCheckpoint,
+} from "@/lib/chunkedTranscode";
+import { checkInputSize, checkOutputSize } from "@/lib/preflight";
+import { downloadSource, inspectRemoteSource } from "@/lib/remoteSource";
+import { estimateRenderedBytes } from "@/lib/sourceRender";
+import { planVideoFilters, type VideoFilterOptions, type VideoFilterPipeline } from "@/lib/videoFilters";
+import {
+  beginTranscode,
+  endTranscode,
+  isTranscodeRunning,
+  removeJobOutputs,
+  throwIfCancelled,
+} from "@/lib/transcodeControl";
 
 const mimeByName = (name: string) => {
   if (name.endsWith('.m3u8')) return 'application/vnd.apple.mpegurl';
+  if (name.endsWith('.mpd')) return 'application/dash+xml';
   if (name.endsWith('.m4s')) return 'video/iso.segment';
   if (name.endsWith('.mp4')) return 'video/mp4';
+  if (name.endsWith('.vtt')) return 'text/vtt';
+  if (name.endsWith('.jpg')) return 'image/jpeg';
+  if (name.endsWith('.webp')) return 'image/webp';
+  if (name.endsWith('.json')) return 'application/json';
   return 'application/octet-stream';
 };
 
+interface StoredCaptionSource {
+  url: string;
+  format: "srt" | "vtt";
+  filename?: string;
+  language?: string;
+  label?: string;
+  sourceIndex?: number; // the source of a merged job the captions belong to
+}
+
 interface TranscodeButtonProps {
   jobId: string;
   status: string;
+  processingNode?: string | null;
+  updatedAt?: string;
+  checkpoint?: HlsCheckpoint | null;
 }
 
-export const TranscodeButton = ({ jobId, status }: TranscodeButtonProps) => {
+// A browser transcode touches its job every HEARTBEAT_MS for the whole run; one silent for this
+// long lost its tab. The margin covers background tabs, whose timers may fire only once a minute.
+const HEARTBEAT_MS = 20 * 1000;
+const ABANDONED_AFTER_MS = 3 * 60 * 1000;
+// Share of the progress bar taken by joining the sources of a merged job
+const MERGE_PROGRESS_SHARE = 0.2;
+// Share of the progress bar taken by rendering an edited or branded source before it is encoded
+const RENDER_PROGRESS_SHARE = 0.3;
+
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  const hh = Math.floor(s / 3600);
+  const mm = Math.floor((s % 3600) / 60);
+  const ss = s % 60;
+  return hh > 0
+    ? `${hh}:${String(mm).padStart(2, "0")}:${String(ss).padStart(2, "0")}`
+    : `${mm}:${String(ss).padStart(2, "0")}`;
+};
+
+export const TranscodeButton = ({ jobId, status, processingNode, updatedAt, checkpoint }: TranscodeButtonProps) => {
   const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const { toast } = useToast();
 
+  // Browser jobs left 'processing' by a reloaded or closed tab become resumable once they go quiet
+  const inBrowser = status === "processing" && processingNode === "browser";
+  useEffect(() => {
+    if (!inBrowser) return;
+    const timer = setInterval(() => setNow(Date.now()), ABANDONED_AFTER_MS / 4);
+    return () => clearInterval(timer);
+  }, [inBrowser]);
+  const abandoned =
+    inBrowser &&
+    !isTranscodeRunning(jobId) &&
+    now - (updatedAt ? Date.parse(updatedAt) : 0) > ABANDONED_AFTER_MS;
+
   const startTranscode = async () => {
     setLoading(true);
+    // Aborted from JobQueue via cancelTranscode, which also terminates the transcoder worker
+    const signal = beginTranscode(jobId);
+    let userId: string | undefined;
+    let transcoder: TranscoderClient | undefined;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
 
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
+      userId = user.id;
 
       // Fetch job info
       const { data: job, error: jobErr } = await supabase
         .from("transcoding_jobs")
-        .select("input_file_url,user_id")
+        .select(
+          "input_file_url,user_id,output_format,caption_sources,encryption,checkpoint,loudness_target,video_filters,video_filter_pipeline,branding,clip_ranges,source_files,status,processing_node,updated_at"
+        )
         .eq("id", jobId)
         .single();
       if (jobErr) throw jobErr;
       if (!job?.input_file_url) throw new Error("Missing input file URL");
 
+      // The queue may show a stale row; a job another tab still keeps alive is not taken over
+      if (
+        job.status === "processing" &&
+        job.processing_node === "browser" &&
+        Date.now() - Date.parse(job.updated_at) <= ABANDONED_AFTER_MS
+      ) {
+        toast({
+          title: "Transcode still running",
+          description: "Another tab is transcoding this job",
+        });
+        return;
+      }
+
+      // Sources the browser cannot hold are handed to the server transcoder instead
+      const routeToServer = async (reason: string) => {
+        await supabase
+          .from("transcoding_jobs")
+          .update({ status: "pending", progress: 0 })
+          .eq("id", jobId);
+        const { error: startErr } = await supabase.functions.invoke("start-transcode", {
+          body: { jobId },
+        });
+        if (startErr) throw new Error(`${reason}; the server transcoder could not be started`);
+        toast({
+          title: "Sent to the server transcoder",
+          description: reason,
+        });
+      };
+
+      // A merged job lists its sources in play order, other jobs have the one input file
+      const sourceFiles = (job.source_files ?? []) as unknown as SourceFile[];
+      const sourceUrls = sourceFiles.length > 1 ? sourceFiles.map((file) => file.url) : [job.input_file_url];
+      const sources = await Promise.all(sourceUrls.map((url) => inspectRemoteSource(url, signal)));
+      const inputCheck = checkInputSize(sources.reduce((a, source) => a + (source.size ?? 0), 0));
+      if (!inputCheck.ok) {
+        await routeToServer(inputCheck.reason);
+        return;
+      }
+
+      // Segments stored by an earlier run of this job are kept and not encoded again
+      const storedCheckpoint = (job.checkpoint ?? null) as unknown as HlsCheckpoint | null;
+
       // Mark as processing
       await supabase
         .from("transcoding_jobs")
-        .update({ status: "processing", progress: 1 })
+        .update({
+          status: "processing",
+          progress: 1,
+          error_message: null,
+          processing_node: "browser",
+          ...(storedCheckpoint ? {} : { checkpoint: null, video_filter_pipeline: null }),
+        })
         .eq("id", jobId);
 
-      // Download source
-      const res = await fetch(job.input_file_url);
-      if (!res.ok) throw new Error("Failed to download source file");
-      const blob = await res.blob();
+      // Downloads, previews, uploads and stitching go long without progress writes; the heartbeat
+      // keeps updated_at fresh so other tabs never see the job as abandoned while it runs
+      heartbeat = setInterval(() => {
+        supabase
+          .from("transcoding_jobs")
+          .update({ processing_node: "browser" })
+          .eq("id", jobId)
+          .eq("status", "processing")
+          .then(({ error }) => error && console.warn("Heartbeat failed:", error));
+      }, HEARTBEAT_MS);
+
+      // Download every source in full, chunk by chunk; the transcoder mounts the Blobs instead of copying them
+      const downloads: Blob[] = [];
+      for (const [i, url] of sourceUrls.entries()) downloads.push(await downloadSource(url, sources[i], { signal }));
+
+      // Download sidecar subtitles uploaded with the source
+      const storedCaptions = (job.caption_sources ?? []) as unknown as StoredCaptionSource[];
+      let captions: CaptionSource[] = await Promise.all(
+        storedCaptions.map(async (caption) => {
+          const captionRes = await fetch(caption.url, { signal });
+          if (!captionRes.ok) throw new Error(`Failed to download subtitles ${caption.filename ?? caption.url}`);
+          return {
+            data: await captionRes.blob(),
+            format: caption.format,
+            language: caption.language,
+            label: caption.label,
+          };
+        })
+      );
+
+      throwIfCancelled(signal);
+
+      // Content keys are generated and kept server-side, the transcoder only borrows them
+      let encryption: HlsEncryption | undefined;
+      if (job.encryption && job.encryption !== "none") {
+        const { data: key, error: keyErr } = await supabase.functions.invoke("content-key", {
+          body: { jobId, method: job.encryption },
+        });
+        if (keyErr) throw keyErr;
+        encryption = key as HlsEncryption;
+      }
 
-      // Transcode in browser to HLS
-      const hls = await transcodeToHls(blob, async (ratio) => {
+      // FFmpeg runs in a worker owned by this job, off the main thread
+      transcoder = new TranscoderClient({ signal });
+
+      const reportProgress = async (ratio: number) => {
+        if (signal.aborted) return;
         const percent = Math.max(1, Math.min(99, Math.floor(ratio * 100)));
         await supabase
           .from("transcoding_jobs")
           .update({ progress: percent })
           .eq("id", jobId);
-      });
+      };
+
+      // The sources of a merged job are joined into one mezzanine in a common format, and every
+      // later step works on it as if it had been uploaded. Sidecar captions move with their source.
+      let blob = downloads[0];
+      let encodeStart = 0;
+      if (downloads.length > 1) {
+        const parts = [];
+        for (const media of downloads) parts.push({ media, probe: await transcoder.probe(media) });
+        const merged = await transcoder.concatSources(parts, (ratio) => reportProgress(ratio * MERGE_PROGRESS_SHARE));
+        blob = merged.media;
+        captions = await Promise.all(
+          captions.map((caption, i) => offsetCaption(caption, merged.offsets[storedCaptions[i].sourceIndex ?? 0] ?? 0))
+        );
+        encodeStart = MERGE_PROGRESS_SHARE;
+        throwIfCancelled(signal);
+      }
+
+      // Inspect the source and record its technical metadata before encoding
+      const probe = await transcoder.probe(blob);
+      await supabase
+        .from("transcoding_jobs")
+        .update({ media_info: probe })
+        .eq("id", jobId);
+
+      // An edited or branded source is rendered into the FS before the encode, not alongside its outputs
+      const branding = (job.branding ?? null) as unknown as BrandingKit | null;
+      const clipRanges = normalizeClipRanges((job.clip_ranges ?? []) as unknown as ClipRange[], probe.durationSec);
+      const render = clipRanges.length > 0 || (!!branding && probe.hasVideo);
+      const outputCheck = checkOutputSize(
+        Math.max(estimateOutputBytes({ probe }), render ? estimateRenderedBytes(probe, clipRanges) : 0)
+      );
+      if (!outputCheck.ok) {
+        await routeToServer(outputCheck.reason);
+        return;
+      }
+
+      throwIfCancelled(signal);
+
+      // Filters are chosen from a sampled analysis and recorded on the job; a resumed encode keeps
+      // the recorded chain so its remaining chunks match the segments already stored
+      const filterOptions = (job.video_filters ?? null) as unknown as VideoFilterOptions | null;
+      let videoFilters = (storedCheckpoint ? job.video_filter_pipeline : null) as unknown as VideoFilterPipeline | null;
+      if (!videoFilters && filterOptions && probe.hasVideo) {
+        videoFilters = planVideoFilters(probe, filterOptions, await transcoder.analyzeVideo(blob, probe));
+        await supabase
+          .from("transcoding_jobs")
+          .update({ video_filter_pipeline: videoFilters })
+          .eq("id", jobId);
+        throwIfCancelled(signal);
+      }
+
+      // The kept ranges are cut and joined, and branding puts the watermark over them between its
+      // bumpers. Every later step works on that render, which already carries the filters.
+      let media = blob;
+      let mediaProbe = probe;
+      let introSec = 0;
+      if (render) {
+        const fetchAsset = async (url: string | null) => {
+          if (!url) return undefined;
+          const res = await fetch(url, { signal });
+          if (!res.ok) throw new Error(`Failed to download branding asset ${url}`);
+          return res.blob();
+        };
+        const rendered = await transcoder.renderSource(
+          blob,
+          probe,
+          {
+            ranges: clipRanges,
+            branding:
+              branding && probe.hasVideo
+                ? {
+                    logo: await fetchAsset(branding.logoUrl),
+                    position: branding.position,
+                    opacity: branding.opacity,
+                    scale: branding.scale,
+                    intro: await fetchAsset(branding.introUrl),
+                    outro: await fetchAsset(branding.outroUrl),
+                  }
+                : undefined,
+            videoFilters: videoFilters ?? undefined,
+          },
+          (ratio) => reportProgress(encodeStart + ratio * RENDER_PROGRESS_SHARE)
+        );
+        media = rendered.media;
+        mediaProbe = await transcoder.probe(media);
+        introSec = rendered.introSec;
+        encodeStart += RENDER_PROGRESS_SHARE;
+        throwIfCancelled(signal);
+      }
+      const reportEncodeProgress = (ratio: number) => reportProgress(encodeStart + ratio * (1 - encodeStart));
+
+      // Scrubbing previews, posters, the waveform and chapters are optional, a failure here should
+      // not fail the job
+      let thumbnails: ThumbnailOutput | null = null;
+      let poster: PosterOutput | null = null;
+      let waveform: WaveformOutput | null = null;
+      let chapters: ChapterDetection | null = null;
+      if (mediaProbe.hasVideo) {
+        try {
+          thumbnails = await transcoder.generateThumbnails(media, mediaProbe);
+        } catch (e) {
+          console.warn("Thumbnail generation failed:", e);
+        }
+        try {
+          poster = await transcoder.extractPoster(media, mediaProbe);
+        } catch (e) {
+          console.warn("Poster extraction failed:", e);
+        }
+      }
+      if (mediaProbe.hasAudio) {
+        try {
+          waveform = await transcoder.generateWaveform(media, mediaProbe);
+        } catch (e) {
+          console.warn("Waveform generation failed:", e);
+        }
+      }
+      if (mediaProbe.hasVideo || mediaProbe.hasAudio) {
+        try {
+          // Scene (or pause) detection decodes the whole source, keep the job's heartbeat going meanwhile
+          chapters = await transcoder.detectChapters(media, mediaProbe, () => reportProgress(encodeStart));
+        } catch (e) {
+          console.warn("Chapter detection failed:", e);
+        }
+      }
+      throwIfCancelled(signal);
+
+      // First loudnorm pass over every audio track; the encodes apply the second pass
+      const target = (job.loudness_target ?? null) as unknown as LoudnessTarget | null;
+      let loudness: LoudnessNormalization | undefined;
+      if (target && mediaProbe.hasAudio) {
+        const audioStreams = mediaProbe.streams.filter((st) => st.type === "audio").map((st) => st.typeIndex);
+        loudness = { target, measured: await transcoder.measureLoudness(media, target, audioStreams) };
+        throwIfCancelled(signal);
+      }
 
-      // Upload all generated HLS files into public bucket
       const basePath = `${user.id}/${jobId}/`;
-      const uploads = Object.entries(hls.files).map(async ([name, bytes]) => {
+      const uploaded = new Set(storedCheckpoint ? checkpointFiles(storedCheckpoint) : []);
+      const uploadOutput = async (name: string, bytes: Uint8Array) => {
         const contentType = mimeByName(name);
-        const path = `${basePath}${name}`;
         // Safely copy into a new ArrayBuffer (avoids SharedArrayBuffer typing issues)
         const arrayBuffer = new ArrayBuffer(bytes.byteLength);
         new Uint8Array(arrayBuffer).set(bytes);
         const blobToUpload = new Blob([arrayBuffer], { type: contentType });
         const { error } = await supabase.storage
           .from("transcoded-outputs")
-          .upload(path, blobToUpload, {
+          .upload(`${basePath}${name}`, blobToUpload, {
             upsert: true,
             contentType,
           });
         if (error) throw error;
-        return path;
-      });
+        uploaded.add(name);
+      };
+
+      const hlsOptions = {
+        cmaf: job.output_format === "cmaf",
+        probe: mediaProbe,
+        captions: render ? captions.map((caption) => ({ ...caption, ranges: clipRanges, offsetSec: introSec })) : captions,
+        encryption,
+        loudness,
+        videoFilters: media === blob ? videoFilters ?? undefined : undefined,
+      };
+      // Long HLS sources are encoded in keyframe-aligned chunks on several workers. Each chunk's
+      // segments are stored as soon as it completes and the job records a checkpoint to resume from.
+      const encodeHls = (onProgress: (ratio: number) => void) =>
+        !hlsOptions.cmaf && shouldEncodeInChunks(mediaProbe)
+          ? transcodeToHlsInChunks(transcoder, media, onProgress, hlsOptions, {
+              signal,
+              checkpoint: storedCheckpoint,
+              onCheckpoint: async (checkpoint, files) => {
+                await Promise.all(Object.entries(files).map(([name, bytes]) => uploadOutput(name, bytes)));
+                throwIfCancelled(signal);
+                await supabase
+                  .from("transcoding_jobs")
+                  .update({ checkpoint })
+                  .eq("id", jobId);
+              },
+              readFile: async (name) => {
+                const { data, error } = await supabase.storage
+                  .from("transcoded-outputs")
+                  .download(`${basePath}${name}`);
+                if (error) throw error;
+                return new Uint8Array(await data.arrayBuffer());
+              },
+            })
+          : transcoder.transcodeToHls(media, onProgress, hlsOptions);
+
+      // Transcode in browser to the requested streaming format
+      const packaged =
+        job.output_format === "dash"
+          ? await transcoder.transcodeToDash(media, reportEncodeProgress, {
+              probe: mediaProbe,
+              encryption,
+              loudness,
+              videoFilters: hlsOptions.videoFilters,
+            }).then((dash) => ({
+              files: dash.files,
+              loudness: dash.loudness,
+              manifestName: dash.manifestName,
+              dashManifestName: undefined,
+              variants: dash.representations.map((r) => ({
+                ...r,
+                bitrate: r.bandwidth,
+                playlistName: dash.manifestName,
+              })),
+            }))
+          : await encodeHls(reportEncodeProgress).then((hls) => ({
+              files: hls.files,
+              loudness: hls.loudness,
+              manifestName: hls.masterName,
+              dashManifestName: hls.dashManifestName,
+              variants: hls.renditions.map((r) => ({ ...r, bitrate: r.averageBandwidth })),
+            }));
+
+      throwIfCancelled(signal);
+
+      // Chapters go out as a WebVTT chapters track and as date ranges in every media playlist:
+      // video, audio, I-frame and subtitle ones. Each playlist is also stored without them, so
+      // renamed chapters are written from that copy and the stored chapter list.
+      const chapterFiles: Record<string, Uint8Array> = {};
+      let chaptersVttName: string | null = null;
+      if (chapters && chapters.chapters.length > 0) {
+        const vtt = chaptersVtt(chapters.chapters);
+        chapterFiles[vtt.name] = new TextEncoder().encode(vtt.text);
+        chaptersVttName = vtt.name;
+        for (const [name, playlist] of Object.entries(packaged.files)) {
+          if (!name.endsWith(".m3u8") || name === packaged.manifestName) continue;
+          chapterFiles[playlistTemplateName(name)] = playlist;
+          chapterFiles[name] = new TextEncoder().encode(
+            withChapterDateranges(new TextDecoder().decode(playlist), chapters.chapters)
+          );
+        }
+      }
+
+      // Upload all generated manifests, segments and thumbnails into public bucket; segments
+      // stored with a checkpoint are already there
+      const outputFiles = {
+        ...packaged.files,
+        ...thumbnails?.files,
+        ...poster?.files,
+        ...waveform?.files,
+        ...chapters?.files,
+        ...chapterFiles,
+      };
+      const uploads = Object.entries(outputFiles)
+        .filter(([name]) => !uploaded.has(name))
+        .map(([name, bytes]) => uploadOutput(name, bytes));
       await Promise.all(uploads);
+      // Uploads cannot be interrupted; a cancel that arrived meanwhile removes them below
+      throwIfCancelled(signal);
 
       const {
         data: { publicUrl: masterUrl },
       } = supabase.storage
         .from("transcoded-outputs")
-        .getPublicUrl(`${basePath}${hls.masterName}`);
+        .getPublicUrl(`${basePath}${packaged.manifestName}`);
 
-      const {
-        data: { publicUrl: variantUrl },
-      } = supabase.storage
-        .from("transcoded-outputs")
-        .getPublicUrl(`${basePath}${hls.variantName}`);
+      // CMAF jobs also carry a DASH manifest over the same segments
+      const dashUrl = packaged.dashManifestName
+        ? supabase.storage
+            .from("transcoded-outputs")
+            .getPublicUrl(`${basePath}${packaged.dashManifestName}`).data.publicUrl
+        : undefined;
+
+      const resolutionVariants = packaged.variants.map((rendition) => {
+        const {
+          data: { publicUrl: variantUrl },
+        } = supabase.storage
+          .from("transcoded-outputs")
+          .getPublicUrl(`${basePath}${rendition.playlistName}`);
+        return {
+          resolution: rendition.label,
+          width: rendition.width,
+          height: rendition.height,
+          bitrate: rendition.bitrate,
+          url: variantUrl,
+          size_bytes: rendition.sizeBytes,
+          ...(dashUrl ? { dash_url: dashUrl } : {}),
+        };
+      });
+
+      const publicUrlOf = (name: string) =>
+        supabase.storage.from("transcoded-outputs").getPublicUrl(`${basePath}${name}`).data.publicUrl;
 
-      const totalSize = Object.values(hls.files).reduce(
+      // Poster images come largest first
+      const posterJpeg = poster?.images.find((image) => image.format === "jpeg") ?? poster?.images[0];
+
+      const totalSize = Object.values(packaged.files).reduce(
         (a, u8) => a + u8.byteLength,
         0
       );
@@ -101,26 +525,51 @@ export const TranscodeButton = ({ jobId, status }: TranscodeButtonProps) => {
         .update({
           status: "completed",
           progress: 100,
+          checkpoint: null,
+          loudness_report:
+            loudness && loudness.measured[0]
+              ? loudnessReport(loudness.target, loudness.measured[0], packaged.loudness ?? null)
+              : null,
           output_url: masterUrl,
-          resolution_variants: [
-            {
-              resolution: hls.resolution.label,
-              width: hls.resolution.width,
-              height: hls.resolution.height,
-              bitrate: hls.approxBitrate,
-              url: variantUrl,
-              size_bytes: totalSize,
-            },
-          ],
+          resolution_variants: resolutionVariants,
           total_size_bytes: totalSize,
+          thumbnails_vtt_url: thumbnails ? publicUrlOf(thumbnails.vttName) : null,
+          thumbnail_sprite_urls: thumbnails ? thumbnails.spriteNames.map(publicUrlOf) : null,
+          poster_url: posterJpeg ? publicUrlOf(posterJpeg.name) : null,
+          poster_variants: poster
+            ? poster.images.map(({ name, ...image }) => ({ ...image, url: publicUrlOf(name) }))
+            : null,
+          waveform_url: waveform ? publicUrlOf(waveform.jsonName) : null,
+          chapters:
+            chapters && chapters.chapters.length > 0
+              ? chapters.chapters.map(({ thumbnail, ...chapter }) => ({
+                  ...chapter,
+                  thumbnailUrl: thumbnail ? publicUrlOf(thumbnail) : null,
+                }))
+              : null,
+          chapters_vtt_url: chaptersVttName ? publicUrlOf(chaptersVttName) : null,
         })
         .eq("id", jobId);
 
       toast({
         title: "Transcoding completed",
-        description: "HLS playlist is ready",
+        description: dashUrl
+          ? "HLS playlist and DASH manifest are ready"
+          : `${job.output_format === "dash" ? "DASH manifest" : "HLS playlist"} is ready`,
       });
     } catch (error: any) {
+      if (signal.aborted) {
+        if (userId) await removeJobOutputs(userId, jobId).catch((e) => console.warn("Cleanup failed:", e));
+        await supabase
+          .from("transcoding_jobs")
+          .update({ status: "cancelled", progress: 0, checkpoint: null })
+          .eq("id", jobId);
+        toast({
+          title: "Transcode cancelled",
+          description: "Partial outputs were removed",
+        });
+        return;
+      }
       console.error("Transcode error:", error);
       await supabase
         .from("transcoding_jobs")
@@ -132,18 +581,29 @@ export const TranscodeButton = ({ jobId, status }: TranscodeButtonProps) => {
         variant: "destructive",
       });
     } finally {
+      clearInterval(heartbeat);
+      transcoder?.dispose();
+      endTranscode(jobId, signal);
       setLoading(false);
     }
   };
 
-  if (status !== "pending") {
+  if (status !== "pending" && status !== "cancelled" && !abandoned) {
     return null;
   }
 
+  const label = abandoned
+    ? checkpoint
+      ? `Resume from ${formatTime(checkpoint.resumeFrom)}`
+      : "Restart Transcode"
+    : status === "cancelled"
+      ? "Restart Transcode"
+      : "Start Transcode";
+
   return (
     <Button onClick={startTranscode} disabled={loading} size="sm" className="w-full">
       <Play className="w-4 h-4 mr-2" />
-      {loading ? "Starting..." : "Start Transcode"}
+      {loading ? "Starting..." : label}
     </Button>
   );
 };
@@ -2,13 +2,17 @@ import { useEffect, useRef } from "react";
 import videojs from "video.js";
 import "video.js/dist/video-js.css";
 import Player from "video.js/dist/types/player";
+import { clearKeySystems, enableEme } from "@/lib/keyRequests";
 
 interface VideoPlayerProps {
   src: string;
   type?: "hls" | "dash";
+  // CENC-protected outputs: ClearKey license endpoint and auth headers for license requests
+  licenseUrl?: string;
+  getLicenseHeaders?: () => Promise<Record<string, string>>;
 }
 
-export const VideoPlayer = ({ src, type = "hls" }: VideoPlayerProps) => {
+export const VideoPlayer = ({ src, type = "hls", licenseUrl, getLicenseHeaders }: VideoPlayerProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const playerRef = useRef<Player | null>(null);
 
@@ -49,15 +53,21 @@ export const VideoPlayer = ({ src, type = "hls" }: VideoPlayerProps) => {
     });
 
     playerRef.current = player;
+    if (licenseUrl) enableEme(player);
 
     // Set the source with error handling
     player.src({
       src: streamUrl,
       type: type === "hls" ? "application/x-mpegURL" : "application/dash+xml",
+      ...(licenseUrl ? { keySystems: clearKeySystems(licenseUrl, getLicenseHeaders) } : {}),
     });
 
-    // Add error handling
+    // Add error handling; a protected source that fails is a license problem, not a stream problem
     player.on("error", () => {
+      if (licenseUrl) {
+        console.error("Protected playback failed:", player.error()?.message);
+        return;
+      }
       console.error('Playback error, falling back to demo stream');
       player.src({
         src: 'https://test-streams.mux.dev/x36xhzz/x36xhzz.m3u8',
@@ -93,7 +103,7 @@ export const VideoPlayer = ({ src, type = "hls" }: VideoPlayerProps) => {
         playerRef.current = null;
       }
     };
-  }, [src, type]);
+  }, [src, type, licenseUrl, getLicenseHeaders]);
 
   
 
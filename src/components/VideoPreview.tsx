@@ -4,7 +4,9 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Play, 
   Pause, 
@@ -14,25 +16,75 @@ import {
   Download, 
   RefreshCw,
   FileVideo,
+  FileAudio,
+  Music,
   Gauge,
   HardDrive,
   Clock,
-  MonitorPlay
+  MonitorPlay,
+  Film,
+  AudioLines,
+  Sun,
+  Layers,
+  Languages,
+  Captions,
+  SlidersHorizontal,
+  Scissors,
+  Bookmark,
+  Save
  } from "lucide-react";
  import { Share2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import videojs from "video.js";
 import "video.js/dist/video-js.css";
+import type { MediaProbe } from "@/lib/mediaProbe";
+import type { LoudnessMeasurement, LoudnessReport } from "@/lib/loudness";
+import type { VideoFilterPipeline } from "@/lib/videoFilters";
+import type { Chapter } from "@/lib/chapters";
+import { saveChapterTitles } from "@/lib/chapterTitles";
+import { clipRangesDuration, formatClipTime, type ClipRange } from "@/lib/clipRanges";
+import { findThumbnail } from "@/lib/thumbnails";
+import { useThumbnails } from "@/hooks/use-thumbnails";
+import { useWaveform } from "@/hooks/use-waveform";
+import { ThumbnailTooltip } from "./ThumbnailTooltip";
+import { WaveformBackdrop } from "./WaveformBackdrop";
+import { clearKeyLicenseUrl, clearKeySystems, enableEme, onKeyRequest } from "@/lib/keyRequests";
+import { supabase } from "@/integrations/supabase/client";
 
 interface ResolutionVariant {
   resolution: string;
-  width: number;
-  height: number;
+  width: number | null;
+  height: number | null;
   bitrate: number;
   url: string;
   size_bytes: number;
+  dash_url?: string;
 }
 
+interface AudioTrackOption {
+  id: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+interface CaptionTrackOption {
+  id: string;
+  label: string;
+  showing: boolean;
+}
+
+// video.js typings omit the array-like shape of its track lists
+type AudioTrackListLike = ArrayLike<{ id: string; label: string; language: string; enabled: boolean }> & {
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+};
+
+type TextTrackListLike = ArrayLike<{ id: string; kind: string; label: string; language: string; mode: string }> & {
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+};
+
 interface VideoPreviewProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -41,8 +93,29 @@ interface VideoPreviewProps {
   filename: string;
   totalSize: number;
   duration?: number;
+  mediaInfo?: MediaProbe | null;
+  loudness?: LoudnessReport | null;
+  videoFilters?: VideoFilterPipeline | null;
+  clipRanges?: ClipRange[] | null;
+  chapters?: Chapter[] | null;
+  chaptersUrl?: string | null;
+  thumbnailsUrl?: string | null;
+  waveformUrl?: string | null;
+  posterUrl?: string | null;
+  jobId?: string;
+  encryption?: string; // 'none', 'aes-128' or 'sample-aes'
 }
 
+// CENC-protected DASH is decrypted by the browser CDM with keys from the ClearKey license function
+const mediaSource = (src: string, type: string, protectedJobId?: string) => {
+  if (!protectedJobId || type !== "application/dash+xml") return { src, type };
+  const getHeaders = async (): Promise<Record<string, string>> => {
+    const { data } = await supabase.auth.getSession();
+    return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+  };
+  return { src, type, keySystems: clearKeySystems(clearKeyLicenseUrl(protectedJobId), getHeaders) };
+};
+
 export const VideoPreview = ({
   open,
   onOpenChange,
@@ -51,6 +124,17 @@ export const VideoPreview = ({
   filename,
   totalSize,
   duration,
+  mediaInfo,
+  loudness,
+  videoFilters,
+  clipRanges,
+  chapters,
+  chaptersUrl,
+  thumbnailsUrl,
+  waveformUrl,
+  posterUrl,
+  jobId,
+  encryption,
 }: VideoPreviewProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const playerRef = useRef<any>(null);
@@ -61,32 +145,144 @@ export const VideoPreview = ({
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [audioTracks, setAudioTracks] = useState<AudioTrackOption[]>([]);
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrackOption[]>([]);
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
+  const [chapterTitles, setChapterTitles] = useState<string[]>([]);
+  const [savingChapters, setSavingChapters] = useState(false);
+  const [keyRequestsReady, setKeyRequestsReady] = useState(false);
+  const thumbnails = useThumbnails(thumbnailsUrl);
+  const waveform = useWaveform(waveformUrl);
   const { toast } = useToast();
-  const shareUrl = typeof window !== 'undefined' 
-    ? `${window.location.origin}/share?src=${encodeURIComponent(masterUrl)}&title=${encodeURIComponent(filename)}`
+  const isDash = masterUrl.toLowerCase().endsWith(".mpd");
+  const isAudioOnly = mediaInfo
+    ? !mediaInfo.hasVideo
+    : variants.length > 0 && variants.every((v) => !v.width);
+  const dashManifestUrl = variants.find((v) => v.dash_url)?.dash_url;
+  const encrypted = !!encryption && encryption !== "none";
+  // HLS players decrypt segment keys as AES-128 only; CENC-encrypted CMAF plays its DASH manifest
+  // through EME, and its HLS variants cannot be played on their own
+  const cencOnly = encryption === "sample-aes";
+  const adaptiveUrl = cencOnly && dashManifestUrl ? dashManifestUrl : masterUrl;
+  const baseShareUrl = typeof window !== 'undefined' 
+    ? `${window.location.origin}/share?src=${encodeURIComponent(adaptiveUrl)}&title=${encodeURIComponent(filename)}` +
+      (thumbnailsUrl ? `&thumbs=${encodeURIComponent(thumbnailsUrl)}` : '') +
+      (posterUrl ? `&poster=${encodeURIComponent(posterUrl)}` : '')
     : '';
 
+  // Encrypted jobs need a share token so viewers without a session can fetch the key
+  const getShareUrl = async () => {
+    if (!encrypted || !jobId) return baseShareUrl;
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+    const { data, error } = await supabase
+      .from("share_tokens")
+      .insert({ job_id: jobId, user_id: user.id })
+      .select("token")
+      .single();
+    if (error) throw error;
+    return `${baseShareUrl}&job=${jobId}&token=${encodeURIComponent(data.token)}`;
+  };
+
+  const shareLink = async (action: "copy" | "open") => {
+    try {
+      const url = await getShareUrl();
+      if (action === "open") {
+        window.open(url, "_blank");
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Share link copied",
+        description: encrypted
+          ? "Preview URL with a 7-day access token copied to clipboard"
+          : "Public preview URL copied to clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error instanceof Error && error.message) || "Failed to create share link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    setChapterTitles(chapters?.map((c) => c.title) ?? []);
+  }, [chapters]);
+
+  const titledChapters = (chapters ?? []).map((c, i) => ({ ...c, title: chapterTitles[i]?.trim() || c.title }));
+  const chaptersEdited = titledChapters.some((c, i) => c.title !== chapters?.[i].title);
+
+  const saveChapters = async () => {
+    if (!jobId) return;
+    setSavingChapters(true);
+    try {
+      await saveChapterTitles(jobId, titledChapters);
+      toast({
+        title: "Chapters saved",
+        description: "The chapters track and playlists carry the new titles",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error instanceof Error && error.message) || "Failed to save chapters",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingChapters(false);
+    }
+  };
+
+  // Key requests for encrypted outputs carry the owner's session. VHS request hooks are
+  // synchronous, so the session is resolved before the player gets its source and kept current
+  // as the token refreshes.
+  useEffect(() => {
+    if (!open || !encrypted) return;
+    let cancelled = false;
+    let accessToken: string | undefined;
+    const removeHook = onKeyRequest((options) =>
+      accessToken ? { ...options, headers: { ...options.headers, Authorization: `Bearer ${accessToken}` } } : options
+    );
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      accessToken = session?.access_token;
+    });
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      accessToken ??= data.session?.access_token;
+      setKeyRequestsReady(true);
+    });
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+      removeHook();
+      setKeyRequestsReady(false);
+    };
+  }, [open, encrypted]);
 
   // Initialize Video.js player
   useEffect(() => {
-    if (!videoRef.current || !open) return;
+    if (!videoRef.current || !open || (encrypted && !keyRequestsReady)) return;
 
-    const src = selectedVariant?.url || masterUrl;
+    const src = selectedVariant?.url || adaptiveUrl;
     const player = videojs(videoRef.current, {
       controls: false,
       autoplay: false,
       preload: "auto",
       fluid: true,
       responsive: true,
-      sources: [
-        {
-          src,
-          type: getMimeType(src),
-        },
-      ],
+      poster: posterUrl || undefined,
     });
 
     playerRef.current = player;
+    if (encrypted) enableEme(player);
+    player.src(mediaSource(src, getMimeType(src), encrypted ? jobId : undefined));
+    // Sidecar chapters track, so the player's own chapter menu and cue events work too
+    if (chaptersUrl) player.addRemoteTextTrack({ kind: "chapters", src: chaptersUrl, label: "Chapters", default: true }, false);
 
     player.on("timeupdate", () => {
       setCurrentTime(player.currentTime() || 0);
@@ -99,13 +295,57 @@ export const VideoPreview = ({
     player.on("play", () => setIsPlaying(true));
     player.on("pause", () => setIsPlaying(false));
 
+    // Alternate audio renditions (EXT-X-MEDIA TYPE=AUDIO) are exposed by VHS as audio tracks
+    const tracks = player.audioTracks() as unknown as AudioTrackListLike;
+    const syncAudioTracks = () => {
+      const options: AudioTrackOption[] = [];
+      for (let i = 0; i < tracks.length; i++) {
+        const track = tracks[i];
+        options.push({
+          id: track.id,
+          label: track.label || track.language || `Track ${i + 1}`,
+          language: track.language,
+          enabled: track.enabled,
+        });
+      }
+      setAudioTracks(options);
+    };
+    tracks.addEventListener("addtrack", syncAudioTracks);
+    tracks.addEventListener("removetrack", syncAudioTracks);
+    tracks.addEventListener("change", syncAudioTracks);
+
+    // Subtitle renditions (EXT-X-MEDIA TYPE=SUBTITLES) show up as text tracks
+    const textTracks = player.textTracks() as unknown as TextTrackListLike;
+    const syncCaptionTracks = () => {
+      const options: CaptionTrackOption[] = [];
+      for (let i = 0; i < textTracks.length; i++) {
+        const track = textTracks[i];
+        if (track.kind !== "subtitles" && track.kind !== "captions") continue;
+        options.push({
+          id: track.id,
+          label: track.label || track.language || `Subtitles ${options.length + 1}`,
+          showing: track.mode === "showing",
+        });
+      }
+      setCaptionTracks(options);
+    };
+    textTracks.addEventListener("addtrack", syncCaptionTracks);
+    textTracks.addEventListener("removetrack", syncCaptionTracks);
+    textTracks.addEventListener("change", syncCaptionTracks);
+
     return () => {
+      tracks.removeEventListener("addtrack", syncAudioTracks);
+      tracks.removeEventListener("removetrack", syncAudioTracks);
+      tracks.removeEventListener("change", syncAudioTracks);
+      textTracks.removeEventListener("addtrack", syncCaptionTracks);
+      textTracks.removeEventListener("removetrack", syncCaptionTracks);
+      textTracks.removeEventListener("change", syncCaptionTracks);
       if (player && !player.isDisposed()) {
         player.dispose();
         playerRef.current = null;
       }
     };
-  }, [open, masterUrl, selectedVariant]);
+  }, [open, adaptiveUrl, selectedVariant, posterUrl, encrypted, keyRequestsReady, jobId, chaptersUrl]);
 
   const togglePlay = () => {
     if (!playerRef.current) return;
@@ -147,6 +387,28 @@ export const VideoPreview = ({
     }
   };
 
+  const selectAudioTrack = (id: string) => {
+    if (!playerRef.current) return;
+    const tracks = playerRef.current.audioTracks();
+    for (let i = 0; i < tracks.length; i++) {
+      tracks[i].enabled = tracks[i].id === id;
+    }
+  };
+
+  const selectCaptionTrack = (id: string) => {
+    if (!playerRef.current) return;
+    const tracks = playerRef.current.textTracks();
+    for (let i = 0; i < tracks.length; i++) {
+      if (tracks[i].kind !== "subtitles" && tracks[i].kind !== "captions") continue;
+      tracks[i].mode = tracks[i].id === id ? "showing" : "disabled";
+    }
+  };
+
+  const handleScrubHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoverRatio(rect.width > 0 ? (e.clientX - rect.left) / rect.width : null);
+  };
+
   const changePlaybackSpeed = (speed: number) => {
     if (!playerRef.current) return;
     setPlaybackSpeed(speed);
@@ -159,10 +421,7 @@ export const VideoPreview = ({
     const wasPlaying = !playerRef.current.paused();
 
     setSelectedVariant(variant);
-    playerRef.current.src({
-      src: variant.url,
-      type: getMimeType(variant.url),
-    });
+    playerRef.current.src(mediaSource(variant.url, getMimeType(variant.url), encrypted ? jobId : undefined));
 
     playerRef.current.one("loadedmetadata", () => {
       playerRef.current.currentTime(currentTime);
@@ -204,12 +463,24 @@ export const VideoPreview = ({
   };
 
   const formatBitrate = (bitrate: number) => {
+    if (bitrate < 1000000) return `${Math.round(bitrate / 1000)} kbps`;
     return `${(bitrate / 1000000).toFixed(1)} Mbps`;
   };
 
+  const formatLoudness = (m: LoudnessMeasurement) => {
+    const value = (v: number | null, unit: string) => (v === null ? "—" : `${v.toFixed(1)} ${unit}`);
+    return `${value(m.integrated, "LUFS")} • ${value(m.truePeak, "dBTP")} peak • ${value(m.lra, "LU")} LRA`;
+  };
+
+  const formatDimensions = (variant: ResolutionVariant) => {
+    if (!variant.width || !variant.height) return "Audio only";
+    return `${variant.width}x${variant.height}`;
+  };
+
   const getMimeType = (url: string) => {
     const lower = url.toLowerCase();
     if (lower.endsWith('.m3u8')) return 'application/x-mpegURL';
+    if (lower.endsWith('.mpd')) return 'application/dash+xml';
     if (lower.endsWith('.mp4') || lower.endsWith('.mov')) return 'video/mp4';
     if (lower.endsWith('.webm')) return 'video/webm';
     if (lower.endsWith('.mkv')) return 'video/x-matroska';
@@ -221,7 +492,7 @@ export const VideoPreview = ({
       <DialogContent className="max-w-7xl max-h-[95vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <FileVideo className="w-5 h-5" />
+            {isAudioOnly ? <FileAudio className="w-5 h-5" /> : <FileVideo className="w-5 h-5" />}
             {filename}
           </DialogTitle>
           <DialogDescription>Review and share your transcoded media</DialogDescription>
@@ -230,16 +501,23 @@ export const VideoPreview = ({
         <Tabs defaultValue="player" className="w-full">
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="player">Player</TabsTrigger>
-            <TabsTrigger value="resolutions">Resolutions</TabsTrigger>
+            <TabsTrigger value="resolutions">{isAudioOnly ? "Bitrates" : "Resolutions"}</TabsTrigger>
             <TabsTrigger value="metadata">Metadata</TabsTrigger>
           </TabsList>
 
           {/* Player Tab */}
           <TabsContent value="player" className="space-y-4">
             <div className="relative rounded-lg overflow-hidden bg-black">
+              {/* Audio assets keep the media element for playback but show an audio placeholder */}
+              {isAudioOnly && (
+                <div className="flex flex-col items-center justify-center gap-3 py-16 text-white/80">
+                  <Music className={`w-16 h-16 ${isPlaying ? "animate-pulse" : ""}`} />
+                  <p className="text-sm">Audio-only stream</p>
+                </div>
+              )}
               <video
                 ref={videoRef}
-                className="video-js vjs-big-play-centered w-full"
+                className={`video-js vjs-big-play-centered w-full ${isAudioOnly ? "hidden" : ""}`}
                 playsInline
               />
             </div>
@@ -249,15 +527,48 @@ export const VideoPreview = ({
               <CardContent className="p-4 space-y-4">
                 {/* Progress Bar */}
                 <div className="space-y-2">
-                  <Slider
-                    value={[currentTime]}
-                    max={videoDuration || 100}
-                    step={0.1}
-                    onValueChange={handleSeek}
-                    className="w-full"
-                  />
+                  <div
+                    className={`relative ${waveform ? "flex h-12 items-center" : ""}`}
+                    onMouseMove={handleScrubHover}
+                    onMouseLeave={() => setHoverRatio(null)}
+                  >
+                    {/* Peaks of the main audio track, so silence and loud passages show on the timeline */}
+                    {waveform && (
+                      <WaveformBackdrop peaks={waveform} played={videoDuration > 0 ? currentTime / videoDuration : 0} />
+                    )}
+                    {/* Chapter starts, the first one is the start of the timeline */}
+                    {videoDuration > 0 &&
+                      titledChapters.slice(1).map((chapter) => (
+                        <div
+                          key={chapter.time}
+                          className="pointer-events-none absolute inset-y-0 z-10 w-0.5 bg-foreground/60"
+                          style={{ left: `${Math.min(100, (chapter.time / videoDuration) * 100)}%` }}
+                        />
+                      ))}
+                    {/* Thumbnail preview of the hovered position, with the chapter it falls in */}
+                    {hoverRatio !== null && thumbnails.length > 0 && videoDuration > 0 && (() => {
+                      const hoverTime = Math.min(1, Math.max(0, hoverRatio)) * videoDuration;
+                      const cue = findThumbnail(thumbnails, hoverTime);
+                      const chapter = titledChapters.filter((c) => c.time <= hoverTime).pop();
+                      const label = chapter ? `${formatTime(hoverTime)} • ${chapter.title}` : formatTime(hoverTime);
+                      return cue && <ThumbnailTooltip cue={cue} left={hoverRatio} label={label} />;
+                    })()}
+                    <Slider
+                      value={[currentTime]}
+                      max={videoDuration || 100}
+                      step={0.1}
+                      onValueChange={handleSeek}
+                      className="w-full"
+                    />
+                  </div>
                   <div className="flex justify-between text-xs text-muted-foreground">
-                    <span>{formatTime(currentTime)}</span>
+                    <span>
+                      {formatTime(currentTime)}
+                      {(() => {
+                        const chapter = titledChapters.filter((c) => c.time <= currentTime).pop();
+                        return chapter && ` • ${chapter.title}`;
+                      })()}
+                    </span>
                     <span>{formatTime(videoDuration)}</span>
                   </div>
                 </div>
@@ -300,6 +611,47 @@ export const VideoPreview = ({
                   </div>
 
                   <div className="flex items-center gap-2">
+                    {/* Audio Track */}
+                    {audioTracks.length > 1 && (
+                      <Select
+                        value={audioTracks.find((t) => t.enabled)?.id}
+                        onValueChange={selectAudioTrack}
+                      >
+                        <SelectTrigger className="h-9 w-40">
+                          <Languages className="w-4 h-4 mr-1 shrink-0" />
+                          <SelectValue placeholder="Audio track" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {audioTracks.map((track) => (
+                            <SelectItem key={track.id} value={track.id}>
+                              {track.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {/* Captions */}
+                    {captionTracks.length > 0 && (
+                      <Select
+                        value={captionTracks.find((t) => t.showing)?.id ?? "off"}
+                        onValueChange={selectCaptionTrack}
+                      >
+                        <SelectTrigger className="h-9 w-40">
+                          <Captions className="w-4 h-4 mr-1 shrink-0" />
+                          <SelectValue placeholder="Captions" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Captions off</SelectItem>
+                          {captionTracks.map((track) => (
+                            <SelectItem key={track.id} value={track.id}>
+                              {track.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
                     {/* Playback Speed */}
                     <div className="flex gap-1">
                       {[0.5, 0.75, 1, 1.25, 1.5, 2].map((speed) => (
@@ -330,12 +682,59 @@ export const VideoPreview = ({
                     <MonitorPlay className="w-4 h-4" />
                     <span>Playing: {selectedVariant.resolution}</span>
                     <Badge variant="secondary">
-                      {selectedVariant.width}x{selectedVariant.height}
+                      {formatDimensions(selectedVariant)}
                     </Badge>
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {/* Chapters from scene detection; titles can be renamed */}
+            {titledChapters.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Bookmark className="w-4 h-4" />
+                    Chapters
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {titledChapters.map((chapter, i) => (
+                    <div key={chapter.time} className="flex items-center gap-3 p-2 rounded-lg bg-muted">
+                      <button
+                        type="button"
+                        className="flex items-center gap-2 shrink-0 text-sm hover:text-primary"
+                        onClick={() => handleSeek([chapter.time])}
+                      >
+                        {chapter.thumbnailUrl ? (
+                          <img src={chapter.thumbnailUrl} alt="" className="h-12 w-20 rounded object-cover" />
+                        ) : (
+                          <Film className="w-4 h-4" />
+                        )}
+                        <span className="w-16 text-left">{formatTime(chapter.time)}</span>
+                      </button>
+                      <Input
+                        value={chapterTitles[i] ?? ""}
+                        onChange={(e) =>
+                          setChapterTitles((titles) => titles.map((title, j) => (j === i ? e.target.value : title)))
+                        }
+                        placeholder={chapters?.[i].title}
+                        disabled={!jobId || savingChapters}
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                  {jobId && (
+                    <div className="flex justify-end">
+                      <Button size="sm" onClick={saveChapters} disabled={!chaptersEdited || savingChapters}>
+                        <Save className="w-3 h-3 mr-1" />
+                        {savingChapters ? "Saving..." : "Save Titles"}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Resolutions Tab */}
@@ -354,7 +753,7 @@ export const VideoPreview = ({
                     <CardTitle className="flex items-center justify-between">
                       <span className="text-lg">{variant.resolution}</span>
                       <Badge variant="outline">
-                        {variant.width}x{variant.height}
+                        {formatDimensions(variant)}
                       </Badge>
                     </CardTitle>
                   </CardHeader>
@@ -376,6 +775,7 @@ export const VideoPreview = ({
                         variant="outline"
                         className="flex-1"
                         onClick={() => switchResolution(variant)}
+                        disabled={cencOnly}
                       >
                         <Play className="w-3 h-3 mr-1" />
                         Play
@@ -400,7 +800,7 @@ export const VideoPreview = ({
               <CardHeader>
                 <CardTitle className="text-base flex items-center gap-2">
                   <RefreshCw className="w-4 h-4" />
-                  Adaptive Streaming (Master Playlist)
+                  Adaptive Streaming ({isDash ? "DASH Manifest" : "Master Playlist"})
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -415,10 +815,7 @@ export const VideoPreview = ({
                     onClick={() => {
                       setSelectedVariant(null);
                       if (playerRef.current) {
-                        playerRef.current.src({
-                          src: masterUrl,
-                          type: getMimeType(masterUrl),
-                        });
+                        playerRef.current.src(mediaSource(adaptiveUrl, getMimeType(adaptiveUrl), encrypted ? jobId : undefined));
                       }
                     }}
                   >
@@ -437,7 +834,7 @@ export const VideoPreview = ({
                     }}
                   >
                     <Download className="w-3 h-3 mr-1" />
-                    View M3U8
+                    {isDash ? "View MPD" : "View M3U8"}
                   </Button>
                 </div>
               </CardContent>
@@ -483,15 +880,198 @@ export const VideoPreview = ({
                       <MonitorPlay className="w-4 h-4" />
                       <span className="text-sm font-medium">Format</span>
                     </div>
-                    <p className="text-sm">HLS (HTTP Live Streaming)</p>
+                    <p className="text-sm">
+                      {isDash ? "MPEG-DASH (Dynamic Adaptive Streaming over HTTP)" : "HLS (HTTP Live Streaming)"}
+                    </p>
                   </div>
                 </div>
               </CardContent>
             </Card>
 
+            {mediaInfo && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Source Media</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Clock className="w-4 h-4" />
+                        <span className="text-sm font-medium">Duration</span>
+                      </div>
+                      <p className="text-sm">
+                        {mediaInfo.durationSec != null ? formatTime(mediaInfo.durationSec) : "Unknown"}
+                        {mediaInfo.container && ` • ${mediaInfo.container}`}
+                        {mediaInfo.bitrate && ` • ${formatBitrate(mediaInfo.bitrate)}`}
+                      </p>
+                    </div>
+
+                    {mediaInfo.hasVideo && (
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Film className="w-4 h-4" />
+                          <span className="text-sm font-medium">Video</span>
+                        </div>
+                        <p className="text-sm">
+                          {mediaInfo.videoCodec} • {mediaInfo.width}x{mediaInfo.height}
+                          {mediaInfo.frameRate && ` • ${mediaInfo.frameRate} fps`}
+                          {mediaInfo.rotation !== 0 && ` • rotated ${mediaInfo.rotation}°`}
+                        </p>
+                      </div>
+                    )}
+
+                    {mediaInfo.hasAudio && (
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <AudioLines className="w-4 h-4" />
+                          <span className="text-sm font-medium">Audio</span>
+                        </div>
+                        <p className="text-sm">
+                          {mediaInfo.audioCodec}
+                          {mediaInfo.audioChannels && ` • ${mediaInfo.audioChannels} channels`}
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Sun className="w-4 h-4" />
+                        <span className="text-sm font-medium">Dynamic Range</span>
+                      </div>
+                      <p className="text-sm">
+                        {mediaInfo.hdr === "pq" ? "HDR10 (PQ)" : mediaInfo.hdr === "hlg" ? "HLG" : "SDR"}
+                        {mediaInfo.dolbyVision && " • Dolby Vision"}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Layers className="w-4 h-4" />
+                      <span className="text-sm font-medium">Streams</span>
+                    </div>
+                    {mediaInfo.streams.map((stream) => (
+                      <div
+                        key={stream.index}
+                        className="flex items-center justify-between p-3 rounded-lg bg-muted text-sm"
+                      >
+                        <div className="flex items-center gap-3">
+                          <Badge variant="outline">#{stream.index}</Badge>
+                          <span className="capitalize">{stream.type}</span>
+                          <span className="text-muted-foreground">
+                            {stream.codec}
+                            {stream.profile && ` (${stream.profile})`}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          {stream.width && stream.height && <span>{stream.width}x{stream.height}</span>}
+                          {stream.channelLayout && <span>{stream.channelLayout}</span>}
+                          {stream.language && <Badge variant="secondary">{stream.language}</Badge>}
+                          {stream.isDefault && <Badge variant="secondary">default</Badge>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {loudness && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Loudness (EBU R128)</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {(
+                    [
+                      ["Target", `${loudness.target.integrated} LUFS • ${loudness.target.truePeak} dBTP peak • ${loudness.target.lra} LU LRA`],
+                      ["Before", formatLoudness(loudness.before)],
+                      ["After", loudness.after ? formatLoudness(loudness.after) : "Not measured"],
+                    ] as const
+                  ).map(([label, value]) => (
+                    <div key={label} className="flex items-center justify-between p-3 rounded-lg bg-muted text-sm">
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Volume2 className="w-4 h-4" />
+                        <span className="font-medium">{label}</span>
+                      </div>
+                      <span>{value}</span>
+                    </div>
+                  ))}
+                  {loudness.normalization && (
+                    <p className="text-xs text-muted-foreground">
+                      {loudness.normalization === "linear"
+                        ? "Normalized with a single linear gain"
+                        : "Normalized dynamically; the target could not be reached with a linear gain"}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {videoFilters && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Video Filters</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {(
+                    [
+                      ["Deinterlace", videoFilters.deinterlace ?? "Progressive source"],
+                      ["Frame rate", videoFilters.frameRate ? `Constant ${videoFilters.frameRate} fps` : "Source timing"],
+                      [
+                        "Crop",
+                        videoFilters.crop
+                          ? `${videoFilters.crop.width}x${videoFilters.crop.height} at ${videoFilters.crop.x},${videoFilters.crop.y}`
+                          : "No borders found",
+                      ],
+                      ["Denoise", videoFilters.denoise ?? "Off"],
+                      ["Rotation", videoFilters.rotation ? `${videoFilters.rotation}°` : "None"],
+                      ["Output frame", `${videoFilters.width}x${videoFilters.height}`],
+                    ] as const
+                  ).map(([label, value]) => (
+                    <div key={label} className="flex items-center justify-between p-3 rounded-lg bg-muted text-sm">
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <SlidersHorizontal className="w-4 h-4" />
+                        <span className="font-medium">{label}</span>
+                      </div>
+                      <span>{value}</span>
+                    </div>
+                  ))}
+                  {videoFilters.chain.length > 0 && (
+                    <code className="block p-3 rounded-lg bg-muted text-xs break-all">{videoFilters.chain.join(",")}</code>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {clipRanges && clipRanges.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Clip Ranges</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {clipRanges.map((range, i) => (
+                    <div key={i} className="flex items-center justify-between p-3 rounded-lg bg-muted text-sm">
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Scissors className="w-4 h-4" />
+                        <span className="font-medium">Range {i + 1}</span>
+                      </div>
+                      <span>
+                        {formatClipTime(range.start)} – {formatClipTime(range.end)}
+                      </span>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    {formatClipTime(clipRangesDuration(clipRanges))} of the source kept, concatenated in order
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
-                <CardTitle>Resolution Breakdown</CardTitle>
+                <CardTitle>{isAudioOnly ? "Bitrate Breakdown" : "Resolution Breakdown"}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
@@ -503,7 +1083,7 @@ export const VideoPreview = ({
                       <div className="flex items-center gap-3">
                         <Badge>{variant.resolution}</Badge>
                         <span className="text-sm text-muted-foreground">
-                          {variant.width}x{variant.height}
+                          {formatDimensions(variant)}
                         </span>
                       </div>
                       <div className="flex items-center gap-4 text-sm">
@@ -529,18 +1109,23 @@ export const VideoPreview = ({
                     {masterUrl}
                   </code>
                   <div className="flex gap-2 pt-2">
-                    <Button size="sm" variant="secondary" onClick={() => {
-                      navigator.clipboard.writeText(shareUrl);
-                      toast({ title: "Share link copied", description: "Public preview URL copied to clipboard" });
-                    }}>
+                    <Button size="sm" variant="secondary" onClick={() => shareLink("copy")}>
                       <Share2 className="w-3 h-3 mr-1" />
                       Copy Share Link
                     </Button>
-                    <Button size="sm" variant="outline" onClick={() => window.open(shareUrl, "_blank")}> 
+                    <Button size="sm" variant="outline" onClick={() => shareLink("open")}> 
                       Open Share Page
                     </Button>
                   </div>
                 </div>
+                {dashManifestUrl && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">DASH Manifest (CMAF, same segments)</p>
+                    <code className="block p-2 text-xs bg-muted rounded overflow-x-auto">
+                      {dashManifestUrl}
+                    </code>
+                  </div>
+                )}
                 {variants.map((variant) => (
                   <div key={variant.resolution} className="space-y-2">
                     <p className="text-sm font-medium">{variant.resolution} Direct</p>
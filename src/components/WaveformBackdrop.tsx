@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { pickWaveformLevel, type WaveformPeaks } from "@/lib/waveform";
+
+interface WaveformBackdropProps {
+  peaks: WaveformPeaks;
+  played: number; // share of the waveform before the playhead, 0..1
+}
+
+// About one bucket per pixel of a dialog-wide scrubber
+const TARGET_BUCKETS = 1000;
+
+/**
+ * Min/max peaks drawn as one bar per bucket, stretched over the parent; the played part is
+ * drawn again on top in the primary color
+ */
+export const WaveformBackdrop = ({ peaks, played }: WaveformBackdropProps) => {
+  const level = pickWaveformLevel(peaks, TARGET_BUCKETS);
+  const path = useMemo(() => {
+    const bars: string[] = [];
+    for (let i = 0; i < level.length; i++) {
+      const min = level.data[i * 2];
+      const max = Math.max(level.data[i * 2 + 1], min + 1); // silence keeps a hairline
+      bars.push(`M${i + 0.5} ${128 - max}V${128 - min}`);
+    }
+    return bars.join("");
+  }, [level]);
+
+  const clipWidth = Math.min(1, Math.max(0, played)) * level.length;
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      viewBox={`0 0 ${level.length} 256`}
+      preserveAspectRatio="none"
+      aria-hidden
+    >
+      <clipPath id="waveform-played">
+        <rect x={0} y={0} width={clipWidth} height={256} />
+      </clipPath>
+      <path d={path} className="stroke-muted-foreground/40" strokeWidth={1} />
+      <path d={path} className="stroke-primary/60" strokeWidth={1} clipPath="url(#waveform-played)" />
+    </svg>
+  );
+};
@@ -0,0 +1,30 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type BrandingKitRow = Tables<"branding_kits">;
+
+/**
+ * The signed-in user's branding kits, newest first. `refresh` reloads them after an edit.
+ */
+export function useBrandingKits() {
+  const [kits, setKits] = React.useState<BrandingKitRow[]>([]);
+
+  const refresh = React.useCallback(async () => {
+    const { data, error } = await supabase
+      .from("branding_kits")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) {
+      console.warn("Failed to load branding kits:", error);
+      return;
+    }
+    setKits(data ?? []);
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { kits, refresh };
+}
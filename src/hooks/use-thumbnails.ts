@@ -0,0 +1,26 @@
+import * as React from "react";
+import { parseThumbnailVtt, type ThumbnailCue } from "@/lib/thumbnails";
+
+/**
+ * Loads a WebVTT thumbnails track. Resolves to an empty list when there is none or it fails to load.
+ */
+export function useThumbnails(vttUrl?: string | null) {
+  const [cues, setCues] = React.useState<ThumbnailCue[]>([]);
+
+  React.useEffect(() => {
+    setCues([]);
+    if (!vttUrl) return;
+    let cancelled = false;
+    fetch(vttUrl)
+      .then((res) => (res.ok ? res.text() : ""))
+      .then((text) => {
+        if (!cancelled) setCues(parseThumbnailVtt(text, vttUrl));
+      })
+      .catch((e) => console.warn("Failed to load thumbnails track:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [vttUrl]);
+
+  return cues;
+}
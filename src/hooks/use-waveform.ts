@@ -0,0 +1,26 @@
+import * as React from "react";
+import type { WaveformPeaks } from "@/lib/waveform";
+
+/**
+ * Loads a job's waveform peaks. Resolves to null when there are none or they fail to load.
+ */
+export function useWaveform(url?: string | null) {
+  const [peaks, setPeaks] = React.useState<WaveformPeaks | null>(null);
+
+  React.useEffect(() => {
+    setPeaks(null);
+    if (!url) return;
+    let cancelled = false;
+    fetch(url)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json: WaveformPeaks | null) => {
+        if (!cancelled && json?.levels?.length) setPeaks(json);
+      })
+      .catch((e) => console.warn("Failed to load waveform peaks:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return peaks;
+}
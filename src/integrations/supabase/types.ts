@@ -14,63 +14,232 @@ export type Database = {
   }
   public: {
     Tables: {
+      branding_kits: {
+        Row: {
+          created_at: string
+          id: string
+          intro_url: string | null
+          logo_opacity: number
+          logo_position: string
+          logo_scale: number
+          logo_url: string | null
+          name: string
+          outro_url: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          intro_url?: string | null
+          logo_opacity?: number
+          logo_position?: string
+          logo_scale?: number
+          logo_url?: string | null
+          name: string
+          outro_url?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          intro_url?: string | null
+          logo_opacity?: number
+          logo_position?: string
+          logo_scale?: number
+          logo_url?: string | null
+          name?: string
+          outro_url?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      content_keys: {
+        Row: {
+          created_at: string
+          iv_hex: string
+          job_id: string
+          key_hex: string
+          kid_hex: string
+          method: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          iv_hex: string
+          job_id: string
+          key_hex: string
+          kid_hex: string
+          method: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          iv_hex?: string
+          job_id?: string
+          key_hex?: string
+          kid_hex?: string
+          method?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_keys_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "transcoding_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          job_id: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          job_id: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          job_id?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_tokens_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "transcoding_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transcoding_jobs: {
         Row: {
+          branding: Json | null
+          caption_sources: Json
+          chapters: Json | null
+          chapters_vtt_url: string | null
+          checkpoint: Json | null
+          clip_ranges: Json | null
           created_at: string
+          encryption: string
           error_message: string | null
           estimated_duration: number | null
           id: string
           input_file_url: string
+          loudness_report: Json | null
+          loudness_target: Json | null
+          media_info: Json | null
           original_filename: string
           output_format: string
           output_url: string | null
+          poster_url: string | null
+          poster_variants: Json | null
           priority: number | null
           processing_node: string | null
           progress: number | null
           resolution_variants: Json | null
           retry_count: number | null
+          source_files: Json | null
           status: string
+          thumbnail_sprite_urls: string[] | null
+          thumbnails_vtt_url: string | null
           total_size_bytes: number | null
           updated_at: string
           user_id: string
+          video_filter_pipeline: Json | null
+          video_filters: Json | null
+          waveform_url: string | null
         }
         Insert: {
+          branding?: Json | null
+          caption_sources?: Json
+          chapters?: Json | null
+          chapters_vtt_url?: string | null
+          checkpoint?: Json | null
+          clip_ranges?: Json | null
           created_at?: string
+          encryption?: string
           error_message?: string | null
           estimated_duration?: number | null
           id?: string
           input_file_url: string
+          loudness_report?: Json | null
+          loudness_target?: Json | null
+          media_info?: Json | null
           original_filename: string
           output_format?: string
           output_url?: string | null
+          poster_url?: string | null
+          poster_variants?: Json | null
           priority?: number | null
           processing_node?: string | null
           progress?: number | null
           resolution_variants?: Json | null
           retry_count?: number | null
+          source_files?: Json | null
           status?: string
+          thumbnail_sprite_urls?: string[] | null
+          thumbnails_vtt_url?: string | null
           total_size_bytes?: number | null
           updated_at?: string
           user_id: string
+          video_filter_pipeline?: Json | null
+          video_filters?: Json | null
+          waveform_url?: string | null
         }
         Update: {
+          branding?: Json | null
+          caption_sources?: Json
+          chapters?: Json | null
+          chapters_vtt_url?: string | null
+          checkpoint?: Json | null
+          clip_ranges?: Json | null
           created_at?: string
+          encryption?: string
           error_message?: string | null
           estimated_duration?: number | null
           id?: string
           input_file_url?: string
+          loudness_report?: Json | null
+          loudness_target?: Json | null
+          media_info?: Json | null
           original_filename?: string
           output_format?: string
           output_url?: string | null
+          poster_url?: string | null
+          poster_variants?: Json | null
           priority?: number | null
           processing_node?: string | null
           progress?: number | null
           resolution_variants?: Json | null
           retry_count?: number | null
+          source_files?: Json | null
           status?: string
+          thumbnail_sprite_urls?: string[] | null
+          thumbnails_vtt_url?: string | null
           total_size_bytes?: number | null
           updated_at?: string
           user_id?: string
+          video_filter_pipeline?: Json | null
+          video_filters?: Json | null
+          waveform_url?: string | null
         }
         Relationships: []
       }
@@ -0,0 +1,49 @@
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * A branding kit as copied onto a job when it is created (`transcoding_jobs.branding`), so later
+ * edits to the kit do not change how the job's outputs are rebuilt
+ */
+export type BrandingKit = {
+  kitId: string;
+  name: string;
+  logoUrl: string | null;
+  position: WatermarkPosition;
+  opacity: number; // 0..1
+  scale: number; // logo width as a share of the frame width
+  introUrl: string | null;
+  outroUrl: string | null;
+};
+
+/** The kit's assets, downloaded for `renderSource` */
+export type BrandingOptions = {
+  logo?: Blob; // PNG or JPEG
+  position: WatermarkPosition;
+  opacity: number;
+  scale: number;
+  intro?: Blob;
+  outro?: Blob;
+};
+
+/** Row of `branding_kits` reduced to what a job keeps */
+export function brandingSnapshot(kit: {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  logo_position: string;
+  logo_opacity: number;
+  logo_scale: number;
+  intro_url: string | null;
+  outro_url: string | null;
+}): BrandingKit {
+  return {
+    kitId: kit.id,
+    name: kit.name,
+    logoUrl: kit.logo_url,
+    position: kit.logo_position as WatermarkPosition,
+    opacity: kit.logo_opacity,
+    scale: kit.logo_scale,
+    introUrl: kit.intro_url,
+    outroUrl: kit.outro_url,
+  };
+}
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import { chaptersVtt, templatePlaylistName, withChapterDateranges, type Chapter } from './chapters';
+
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Renames the chapters of a completed job and rewrites the outputs that carry their titles: the
+ * WebVTT chapters track and the date ranges of every media playlist. Times come from the chapter
+ * list stored on the job, and playlists are written from the chapter-free copies stored with them.
+ * The job is claimed first, so a re-transcode that started or finished since it was loaded wins.
+ */
+export async function saveChapterTitles(jobId: string, renamed: Pick<Chapter, 'time' | 'title'>[]) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data: job, error: jobError } = await supabase
+    .from('transcoding_jobs')
+    .select('status,updated_at,chapters')
+    .eq('id', jobId)
+    .single();
+  if (jobError) throw jobError;
+  const stored = (job.chapters ?? []) as unknown as Chapter[];
+  // Chapters of another transcode start elsewhere, the titles would land on the wrong ones
+  const sameChapters = stored.length === renamed.length && stored.every((c, i) => c.time === renamed[i].time);
+  if (job.status !== 'completed' || !sameChapters) {
+    throw new Error('The job was transcoded again; reload it before renaming chapters');
+  }
+  const chapters = stored.map((chapter, i) => ({ ...chapter, title: renamed[i].title.trim() || chapter.title }));
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('transcoding_jobs')
+    .update({ chapters })
+    .eq('id', jobId)
+    .eq('status', 'completed')
+    .eq('updated_at', job.updated_at)
+    .select('id');
+  if (claimError) throw claimError;
+  if (!claimed?.length) throw new Error('The job changed while saving; reload it before renaming chapters');
+
+  const bucket = supabase.storage.from('transcoded-outputs');
+  const basePath = `${user.id}/${jobId}/`;
+  const vtt = chaptersVtt(chapters);
+  const { error: vttError } = await bucket.upload(`${basePath}${vtt.name}`, new Blob([vtt.text], { type: 'text/vtt' }), {
+    upsert: true,
+    contentType: 'text/vtt',
+  });
+  if (vttError) throw vttError;
+
+  // Segments fill most of the folder, the templates can be on any page
+  const templates: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await bucket.list(`${user.id}/${jobId}`, { limit: LIST_PAGE_SIZE, offset });
+    if (error) throw error;
+    templates.push(...(data ?? []).map((item) => item.name).filter((name) => templatePlaylistName(name)));
+    if ((data ?? []).length < LIST_PAGE_SIZE) break;
+  }
+
+  for (const name of templates) {
+    const playlistName = templatePlaylistName(name)!;
+    const { data: template, error: downloadError } = await bucket.download(`${basePath}${name}`);
+    if (downloadError) throw downloadError;
+    const playlist = withChapterDateranges(await template.text(), chapters);
+    const { error } = await bucket.upload(
+      `${basePath}${playlistName}`,
+      new Blob([playlist], { type: 'application/vnd.apple.mpegurl' }),
+      { upsert: true, contentType: 'application/vnd.apple.mpegurl' }
+    );
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,232 @@
+import { inferExt } from './hlsTranscoder';
+import type { MediaProbe } from './mediaProbe';
+import type { TranscoderSession } from './transcoderSession';
+import { serializeWebVtt } from './webvtt';
+
+/** A chapter as stored on the job (`transcoding_jobs.chapters`); titles can be renamed later */
+export type Chapter = {
+  time: number; // seconds on the output timeline
+  end: number;
+  title: string;
+  thumbnailUrl: string | null;
+};
+
+export type DetectedChapter = Omit<Chapter, 'thumbnailUrl'> & {
+  thumbnail: string | null; // name among the detection's files
+};
+
+export type ChapterDetection = {
+  chapters: DetectedChapter[];
+  files: Record<string, Uint8Array>;
+};
+
+export type SceneCut = {
+  time: number;
+  score: number; // 0..1, how different the frame is from the one before, or how long the pause
+};
+
+// Frames differing this much from the previous one start a new scene
+const SCENE_THRESHOLD = 0.4;
+// Scene scores barely change with resolution, a small frame keeps the pass cheap
+const ANALYSIS_WIDTH = 160;
+// Without video, chapters start where a pause ends: at least a second below -35 dB. Pauses of
+// five seconds or more score like the strongest scene change.
+const SILENCE_NOISE = '-35dB';
+const SILENCE_MIN_SEC = 1;
+const SILENCE_FULL_SCORE_SEC = 5;
+// About one chapter per five minutes, never closer together than half the average chapter
+const TARGET_CHAPTER_SEC = 300;
+const MIN_CHAPTER_SEC = 30;
+const MAX_CHAPTERS = 20;
+const THUMBNAIL_WIDTH = 320;
+const CHAPTERS_VTT = 'chapters.vtt';
+// DATERANGE tags need a wall clock; media time 0 is pinned to the Unix epoch so a START-DATE
+// reads back as its media time
+const PROGRAM_DATE_TIME = new Date(0).toISOString();
+const DATERANGE_CLASS = 'chapter';
+// Media playlists are also stored without chapters, so renamed chapters are written over a clean copy
+const PLAYLIST_TEMPLATE_SUFFIX = '.template';
+
+/**
+ * Places chapters on the strongest scene changes of the first video stream, with a thumbnail for
+ * each, or on the longest pauses of the first audio stream when there is no video. Sources too
+ * short for two chapters get none.
+ */
+export async function detectChapters(
+  ff: TranscoderSession,
+  media: Blob,
+  probe: MediaProbe,
+  onProgress?: (ratio: number) => void
+): Promise<ChapterDetection> {
+  const video = probe.streams.find((st) => st.type === 'video' && !st.attachedPic);
+  const audio = probe.streams.find((st) => st.type === 'audio');
+  if (!video && !audio) throw new Error('Source has no video or audio to place chapters on');
+  const duration = probe.durationSec ?? 0;
+  if (duration <= 0) throw new Error('Source duration is unknown');
+
+  const inputFile = await ff.mountInput(media, `scenes.${inferExt(media.type) || 'mp4'}`);
+  const files: Record<string, Uint8Array> = {};
+  try {
+    // The analysis decodes the whole stream, most of the work is here
+    const onAnalysisProgress = (progress: number) => onProgress?.(Math.min(0.9, progress * 0.9));
+    const cuts = video
+      ? await sceneCuts(ff, inputFile, video.index, onAnalysisProgress)
+      : await silenceCuts(ff, inputFile, audio!.index, onAnalysisProgress);
+
+    const points = planChapters(cuts, duration);
+    if (points.length < 2) return { chapters: [], files };
+
+    const chapters: DetectedChapter[] = [];
+    for (const [i, start] of points.entries()) {
+      const name = `chapter_${String(i).padStart(2, '0')}.jpg`;
+      let thumbnail: string | null = null;
+      if (video) {
+        try {
+          await ff.exec([
+            '-hide_banner',
+            '-ss', start.toFixed(3),
+            '-i', inputFile,
+            '-map', `0:${video.index}`,
+            '-frames:v', '1',
+            '-vf', `scale=${THUMBNAIL_WIDTH}:-2`,
+            '-q:v', '5',
+            '-y', name,
+          ]);
+          files[name] = (await ff.readFile(name)) as Uint8Array;
+          await ff.deleteFile(name);
+          thumbnail = name;
+        } catch {
+          // A chapter without a thumbnail is still a chapter
+        }
+      }
+      chapters.push({ time: start, end: points[i + 1] ?? duration, title: `Chapter ${i + 1}`, thumbnail });
+      onProgress?.(0.9 + (0.1 * (i + 1)) / points.length);
+    }
+    return { chapters, files };
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+}
+
+async function sceneCuts(
+  ff: TranscoderSession,
+  inputFile: string,
+  streamIndex: number,
+  onProgress: (progress: number) => void
+) {
+  const cuts: SceneCut[] = [];
+  let time: number | null = null;
+  await ff.exec(
+    [
+      '-hide_banner',
+      '-i', inputFile,
+      '-map', `0:${streamIndex}`,
+      '-an', '-sn',
+      '-vf', `scale=${ANALYSIS_WIDTH}:-2,select='gt(scene,${SCENE_THRESHOLD})',metadata=print:key=lavfi.scene_score`,
+      '-f', 'null',
+      '-',
+    ],
+    {
+      onProgress,
+      // metadata=print logs the frame's time, then its score
+      onLog: (message) => {
+        let m: RegExpMatchArray | null;
+        if ((m = message.match(/pts_time:(-?[\d.]+)/))) time = Number(m[1]);
+        else if ((m = message.match(/lavfi\.scene_score=([\d.]+)/)) && time !== null) {
+          cuts.push({ time, score: Number(m[1]) });
+          time = null;
+        }
+      },
+    }
+  );
+  return cuts;
+}
+
+async function silenceCuts(
+  ff: TranscoderSession,
+  inputFile: string,
+  streamIndex: number,
+  onProgress: (progress: number) => void
+) {
+  const cuts: SceneCut[] = [];
+  await ff.exec(
+    [
+      '-hide_banner',
+      '-i', inputFile,
+      '-map', `0:${streamIndex}`,
+      '-vn', '-sn',
+      '-af', `silencedetect=noise=${SILENCE_NOISE}:d=${SILENCE_MIN_SEC}`,
+      '-f', 'null',
+      '-',
+    ],
+    {
+      onProgress,
+      // silencedetect logs "silence_end: 15.6 | silence_duration: 3.2" when a pause is over
+      onLog: (message) => {
+        const m = message.match(/silence_end:\s*(-?[\d.]+)\s*\|\s*silence_duration:\s*([\d.]+)/);
+        if (m) cuts.push({ time: Number(m[1]), score: Math.min(1, Number(m[2]) / SILENCE_FULL_SCORE_SEC) });
+      },
+    }
+  );
+  return cuts;
+}
+
+/** Chapter start times: the first at 0, then the strongest cuts that keep chapters apart */
+export function planChapters(cuts: SceneCut[], duration: number) {
+  const count = Math.max(1, Math.min(MAX_CHAPTERS, Math.round(duration / TARGET_CHAPTER_SEC)));
+  const minGap = Math.max(MIN_CHAPTER_SEC, duration / (count * 2));
+  const points = [0];
+  for (const cut of [...cuts].sort((a, b) => b.score - a.score)) {
+    if (points.length >= count) break;
+    if (duration - cut.time < minGap) continue;
+    if (points.every((point) => Math.abs(point - cut.time) >= minGap)) points.push(cut.time);
+  }
+  return points.sort((a, b) => a - b);
+}
+
+/** WebVTT chapters track (`kind="chapters"`), one cue per chapter */
+export function chaptersVtt(chapters: Pick<Chapter, 'time' | 'end' | 'title'>[]) {
+  return {
+    name: CHAPTERS_VTT,
+    text: serializeWebVtt(chapters.map((c) => ({ start: c.time, end: c.end, text: c.title }))),
+  };
+}
+
+/** Name of the chapter-free copy stored next to a media playlist */
+export function playlistTemplateName(playlistName: string) {
+  return `${playlistName}${PLAYLIST_TEMPLATE_SUFFIX}`;
+}
+
+/** The media playlist a stored copy belongs to, or null for other names */
+export function templatePlaylistName(name: string) {
+  return name.endsWith(PLAYLIST_TEMPLATE_SUFFIX) ? name.slice(0, -PLAYLIST_TEMPLATE_SUFFIX.length) : null;
+}
+
+/**
+ * Adds one EXT-X-DATERANGE per chapter to a media playlist, replacing the chapters added before,
+ * with the EXT-X-PROGRAM-DATE-TIME they are dated against on the first segment
+ */
+export function withChapterDateranges(playlist: string, chapters: Pick<Chapter, 'time' | 'end' | 'title'>[]) {
+  const lines = playlist
+    .split('\n')
+    .filter(
+      (line) =>
+        line !== `#EXT-X-PROGRAM-DATE-TIME:${PROGRAM_DATE_TIME}` &&
+        !(line.startsWith('#EXT-X-DATERANGE:') && line.includes(`CLASS="${DATERANGE_CLASS}"`))
+    );
+  const firstSegment = lines.findIndex((line) => line.startsWith('#EXTINF:'));
+  if (firstSegment === -1 || chapters.length === 0) return lines.join('\n');
+
+  const tags = [
+    `#EXT-X-PROGRAM-DATE-TIME:${PROGRAM_DATE_TIME}`,
+    ...chapters.map(
+      (c, i) =>
+        `#EXT-X-DATERANGE:ID="chapter-${i + 1}",CLASS="${DATERANGE_CLASS}",` +
+        `START-DATE="${new Date(c.time * 1000).toISOString()}",DURATION=${(c.end - c.time).toFixed(3)},` +
+        // Quoted attribute values cannot hold double quotes or line breaks
+        `X-TITLE="${c.title.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`
+    ),
+  ];
+  lines.splice(firstSegment, 0, ...tags);
+  return lines.join('\n');
+}
@@ -0,0 +1,189 @@
+import {
+  finishStitchedHls,
+  planHlsChunks,
+  stitchHlsChunk,
+  type HlsChunk,
+  type HlsChunkOutput,
+  type HlsOptions,
+  type HlsOutput,
+  type HlsSideTracks,
+  type HlsStitchState,
+} from './hlsTranscoder';
+import type { MediaProbe } from './mediaProbe';
+import { TranscoderClient } from './transcoderClient';
+
+/**
+ * Progress of a chunked encode, stored on the job (`transcoding_jobs.checkpoint`) after every
+ * chunk whose outputs were persisted. A reloaded page resumes at `resumeFrom` with the same chunk
+ * plan and only encodes the chunks after `completedChunks`.
+ */
+export type HlsCheckpoint = {
+  chunks: HlsChunk[];
+  completedChunks: number;
+  resumeFrom: number; // seconds of source already encoded and stored
+  lastSegment: string | null; // last stored segment of the top rung
+  stitch: HlsStitchState | null;
+  sideTracks: (Pick<HlsSideTracks, 'audio' | 'subtitles' | 'loudness'> & { files: string[] }) | null;
+};
+
+export type ChunkedTranscodeOptions = {
+  signal?: AbortSignal; // aborting terminates every worker of the pool
+  workers?: number; // transcoder workers, default from the CPU core count
+  checkpoint?: HlsCheckpoint | null; // resume after the chunks it records
+  // Persists the new files, then the checkpoint; the next chunk waits for it
+  onCheckpoint?: (checkpoint: HlsCheckpoint, files: Record<string, Uint8Array>) => Promise<void>;
+  readFile?: (name: string) => Promise<Uint8Array>; // files persisted by an earlier run
+};
+
+type PoolTask = {
+  weight: number; // seconds of source the task encodes
+  run: (client: TranscoderClient, onProgress: (ratio: number) => void) => Promise<void>;
+};
+
+// Sources shorter than this encode faster in one pass than split, encoded and stitched, and lose
+// little when a reload restarts them
+export const CHUNKED_MIN_DURATION_SEC = 300;
+// Every worker loads its own FFmpeg core and heap
+const MAX_WORKERS = 4;
+// More chunks than workers, so a slow chunk does not leave the other workers idle at the end
+const CHUNKS_PER_WORKER = 2;
+// Upper bound on the work a reload can lose
+const CHECKPOINT_INTERVAL_SEC = 120;
+// The audio and subtitle pass decodes the whole source but encodes no video
+const SIDE_TRACKS_WEIGHT = 0.25;
+
+export function defaultChunkWorkers() {
+  return Math.max(1, Math.min(MAX_WORKERS, Math.floor((navigator.hardwareConcurrency || 2) / 2)));
+}
+
+export function shouldEncodeInChunks(probe: MediaProbe) {
+  return probe.hasVideo && (probe.durationSec ?? 0) >= CHUNKED_MIN_DURATION_SEC;
+}
+
+/** Names of every file a checkpoint records as persisted */
+export function checkpointFiles(checkpoint: HlsCheckpoint) {
+  return [
+    ...(checkpoint.stitch?.variants.flatMap((v) => [v.initName, ...v.segments.map((segment) => segment.name)]) ?? []),
+    ...(checkpoint.sideTracks?.files ?? []),
+  ];
+}
+
+/**
+ * HLS encode split over a pool of transcoder workers: the video ladder is encoded in chunks that
+ * start on source keyframes, audio renditions and subtitles once over the whole source, and the
+ * chunks are stitched into one variant playlist per rung as soon as they complete in order.
+ * `transcoder` is the first worker of the pool and stays with the caller; the others are created
+ * here and disposed when done.
+ */
+export async function transcodeToHlsInChunks(
+  transcoder: TranscoderClient,
+  media: Blob,
+  onProgress?: (ratio: number) => void,
+  options: HlsOptions = {},
+  { signal, workers = defaultChunkWorkers(), checkpoint = null, onCheckpoint, readFile }: ChunkedTranscodeOptions = {}
+): Promise<HlsOutput> {
+  const duration = options.probe?.durationSec;
+  if (!duration) throw new Error('Chunked encoding needs the probed source duration');
+  if (options.encryption?.method === 'sample-aes') {
+    throw new Error('SAMPLE-AES (CENC) needs a DASH or CMAF job with video; use AES-128 for HLS');
+  }
+
+  // A resumed encode keeps its chunk plan, the stored segments end on its boundaries
+  let state: HlsCheckpoint;
+  if (checkpoint) {
+    state = checkpoint;
+  } else {
+    const keyframes = await transcoder.probeKeyframes(media);
+    const count = Math.max(workers * CHUNKS_PER_WORKER, Math.ceil(duration / CHECKPOINT_INTERVAL_SEC));
+    const chunks = planHlsChunks(keyframes, duration, count, options);
+    if (chunks.length < 2) return transcoder.transcodeToHls(media, onProgress, options);
+    state = { chunks, completedChunks: 0, resumeFrom: 0, lastSegment: null, stitch: null, sideTracks: null };
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  let sideTracks = state.sideTracks;
+  const finished = new Map<number, HlsChunkOutput>();
+
+  // Checkpoints are written one at a time and only for chunks that complete the stored prefix
+  let persisting = Promise.resolve();
+  const persist = (step: () => Promise<void>) => (persisting = persisting.then(step));
+  const save = (newFiles: Record<string, Uint8Array>) => onCheckpoint?.({ ...state, sideTracks }, newFiles);
+  const stitchFinished = async () => {
+    for (let output = finished.get(state.completedChunks); output; output = finished.get(state.completedChunks)) {
+      finished.delete(output.chunk.index);
+      const stitched = await stitchHlsChunk(state.stitch, output, options);
+      Object.assign(files, stitched.files);
+      const next = state.chunks[output.chunk.index + 1];
+      const segments = stitched.state.variants[0].segments;
+      state = {
+        ...state,
+        completedChunks: output.chunk.index + 1,
+        resumeFrom: next ? next.start : duration,
+        lastSegment: segments[segments.length - 1].name,
+        stitch: stitched.state,
+      };
+      await save(stitched.files);
+    }
+  };
+
+  const tasks: PoolTask[] = [];
+  // The single long side-track task goes first so it does not finish last
+  if (!sideTracks) {
+    tasks.push({
+      weight: duration * SIDE_TRACKS_WEIGHT,
+      run: async (client, report) => {
+        const encoded = await client.encodeHlsSideTracks(media, report, options);
+        Object.assign(files, encoded.files);
+        await persist(async () => {
+          sideTracks = {
+            audio: encoded.audio,
+            subtitles: encoded.subtitles,
+            loudness: encoded.loudness,
+            files: Object.keys(encoded.files),
+          };
+          await save(encoded.files);
+        });
+      },
+    });
+  }
+  for (const chunk of state.chunks.slice(state.completedChunks)) {
+    tasks.push({
+      weight: chunk.duration ?? duration - chunk.start,
+      run: async (client, report) => {
+        finished.set(chunk.index, await client.encodeHlsChunk(media, chunk, report, options));
+        await persist(stitchFinished);
+      },
+    });
+  }
+
+  // Work stored by an earlier run counts as done
+  const doneWeight = state.resumeFrom + (sideTracks ? duration * SIDE_TRACKS_WEIGHT : 0);
+  const totalWeight = doneWeight + tasks.reduce((a, task) => a + task.weight, 0);
+  const ratios = tasks.map(() => 0);
+  const reportTask = (i: number) => (ratio: number) => {
+    ratios[i] = Math.max(0, Math.min(1, ratio));
+    const overall = tasks.reduce((a, task, j) => a + task.weight * ratios[j], doneWeight) / totalWeight;
+    onProgress?.(Math.min(0.99, overall));
+  };
+
+  const extraWorkers = Math.max(0, Math.min(workers, tasks.length) - 1);
+  const pool = [transcoder, ...Array.from({ length: extraWorkers }, () => new TranscoderClient({ signal }))];
+  try {
+    let next = 0;
+    await Promise.all(
+      pool.map(async (client) => {
+        while (next < tasks.length) {
+          const i = next++;
+          await tasks[i].run(client, reportTask(i));
+        }
+      })
+    );
+  } finally {
+    for (const client of pool.slice(1)) client.dispose();
+  }
+
+  if (!state.stitch || !sideTracks) throw new Error('Chunked encode finished without every chunk');
+  const output = await finishStitchedHls(state.stitch, files, sideTracks, options, readFile);
+  onProgress?.(1);
+  return output;
+}
@@ -0,0 +1,70 @@
+import type { VttCue } from './webvtt';
+
+/** A kept part of the source, in seconds of its timeline (`transcoding_jobs.clip_ranges`) */
+export type ClipRange = {
+  start: number;
+  end: number;
+};
+
+// Shorter ranges would not hold a single frame of low frame rate sources
+const MIN_RANGE_SEC = 0.1;
+
+/**
+ * Sorts the ranges, clamps them to the source and merges the ones that overlap or touch. An empty
+ * result keeps the whole source, as does a single range covering all of it.
+ */
+export function normalizeClipRanges(ranges: ClipRange[], durationSec?: number | null): ClipRange[] {
+  const end = durationSec ?? Infinity;
+  const sorted = ranges
+    .filter((r) => Number.isFinite(r.start) && Number.isFinite(r.end))
+    .map((r) => ({ start: Math.max(0, r.start), end: Math.min(end, r.end) }))
+    .filter((r) => r.end - r.start >= MIN_RANGE_SEC)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: ClipRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+
+  const wholeSource = merged.length === 1 && merged[0].start === 0 && durationSec && merged[0].end >= durationSec;
+  return wholeSource ? [] : merged;
+}
+
+export function clipRangesDuration(ranges: ClipRange[]) {
+  return ranges.reduce((a, r) => a + (r.end - r.start), 0);
+}
+
+/**
+ * Moves cues of the source onto the edited timeline. Cues in cut parts are dropped, and a cue
+ * crossing a cut keeps the part in every range it overlaps. `offsetSec` shifts the result, e.g.
+ * past an intro placed before the source.
+ */
+export function clipCues(cues: VttCue[], ranges: ClipRange[] | null, offsetSec = 0): VttCue[] {
+  if (!ranges || ranges.length === 0) {
+    return offsetSec ? cues.map((cue) => ({ ...cue, start: cue.start + offsetSec, end: cue.end + offsetSec })) : cues;
+  }
+
+  const clipped: VttCue[] = [];
+  let position = offsetSec; // where the current range starts on the edited timeline
+  for (const range of ranges) {
+    for (const cue of cues) {
+      const start = Math.max(cue.start, range.start);
+      const end = Math.min(cue.end, range.end);
+      if (end <= start) continue;
+      clipped.push({ ...cue, start: position + start - range.start, end: position + end - range.start });
+    }
+    position += range.end - range.start;
+  }
+  return clipped.sort((a, b) => a.start - b.start);
+}
+
+/** "1:02:03.4" style label for a time on the source timeline */
+export function formatClipTime(seconds: number) {
+  const tenths = Math.max(0, Math.round(seconds * 10));
+  const h = Math.floor(tenths / 36000);
+  const m = Math.floor((tenths % 36000) / 600);
+  const s = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,157 @@
+import { clipCues } from './clipRanges';
+import { inferExt, type CaptionSource } from './hlsTranscoder';
+import type { MediaProbe } from './mediaProbe';
+import type { TranscoderSession } from './transcoderSession';
+import { parseWebVtt, serializeWebVtt } from './webvtt';
+
+/** One input of a merged job, as listed on it (`transcoding_jobs.source_files`) in play order */
+export type SourceFile = {
+  url: string;
+  filename: string;
+  sizeBytes: number;
+};
+
+export type ConcatSource = {
+  media: Blob;
+  probe: MediaProbe;
+};
+
+export type ConcatOutput = {
+  media: Blob; // Matroska mezzanine with one video and one stereo audio track
+  offsets: number[]; // where each source starts on the merged timeline, in seconds
+};
+
+// Same intermediate quality as the rendered source, the mezzanine is encoded again by every rung
+const MEZZANINE_CRF = '18';
+const MEZZANINE_AUDIO_BITRATE = '192k';
+// Sources with a higher rate are dropped to it; 60 fps covers every broadcast and phone rate
+const MAX_FRAME_RATE = 60;
+
+/**
+ * The common format every source is converted to: the frame of the largest video source, the
+ * highest frame rate among them, and stereo 48 kHz audio
+ */
+export function planConcatFormat(probes: MediaProbe[]) {
+  const videos = probes.filter((p) => p.hasVideo && p.width && p.height);
+  const largest = videos.reduce<MediaProbe | null>(
+    (best, p) => (!best || p.width * p.height > best.width * best.height ? p : best),
+    null
+  );
+  const rate = Math.min(MAX_FRAME_RATE, Math.max(0, ...videos.map((p) => p.frameRate ?? 0)));
+  return {
+    width: largest ? largest.width & ~1 : null,
+    height: largest ? largest.height & ~1 : null,
+    frameRate: largest ? frameRateValue(rate || 30) : null,
+    hasAudio: probes.some((p) => p.hasAudio),
+  };
+}
+
+/**
+ * Joins the sources in order into one mezzanine. Every video is scaled into the common frame
+ * and padded, converted to the common rate and played upright; sources without video get black
+ * frames and sources without audio get silence for their duration. Only the default (or first)
+ * audio track of each source is kept, and embedded subtitles are dropped.
+ */
+export async function concatSources(
+  ff: TranscoderSession,
+  sources: ConcatSource[],
+  onProgress?: (ratio: number) => void
+): Promise<ConcatOutput> {
+  if (sources.length < 2) throw new Error('Merging needs at least two sources');
+  const missing = sources.findIndex((s) => !s.probe.durationSec);
+  if (missing !== -1) throw new Error(`Source ${missing + 1} has no readable duration`);
+
+  const { width, height, frameRate, hasAudio } = planConcatFormat(sources.map((s) => s.probe));
+  const hasVideo = width !== null && height !== null;
+  const durations = sources.map((s) => s.probe.durationSec ?? 0);
+  const total = durations.reduce((a, d) => a + d, 0);
+
+  const mounted: string[] = [];
+  try {
+    const inputs: string[] = [];
+    const graph: string[] = [];
+    const segments: string[] = [];
+    for (const [i, { media, probe }] of sources.entries()) {
+      const path = await ff.mountInput(media, `merge_${i}.${inferExt(media.type) || 'mp4'}`);
+      mounted.push(path);
+      inputs.push('-i', path);
+
+      const duration = durations[i];
+      let labels = '';
+      if (hasVideo) {
+        const video = probe.streams.find((st) => st.type === 'video' && !st.attachedPic);
+        graph.push(
+          video
+            ? `[${i}:${video.index}]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+                `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frameRate},format=yuv420p[v${i}]`
+            : `color=c=black:s=${width}x${height}:r=${frameRate},trim=duration=${duration},setsar=1,format=yuv420p[v${i}]`
+        );
+        labels += `[v${i}]`;
+      }
+      if (hasAudio) {
+        const audioStreams = probe.streams.filter((st) => st.type === 'audio');
+        const audio = audioStreams.find((st) => st.isDefault) ?? audioStreams[0];
+        graph.push(
+          audio
+            ? `[${i}:${audio.index}]aformat=sample_rates=48000:channel_layouts=stereo[a${i}]`
+            : `anullsrc=r=48000:cl=stereo,atrim=duration=${duration}[a${i}]`
+        );
+        labels += `[a${i}]`;
+      }
+      segments.push(labels);
+    }
+    graph.push(
+      `${segments.join('')}concat=n=${sources.length}:v=${hasVideo ? 1 : 0}:a=${hasAudio ? 1 : 0}` +
+        `${hasVideo ? '[vout]' : ''}${hasAudio ? '[aout]' : ''}`
+    );
+
+    const output = 'merged.mkv';
+    await ff.exec(
+      [
+        '-hide_banner',
+        ...inputs,
+        '-filter_complex', graph.join(';'),
+        ...(hasVideo ? ['-map', '[vout]'] : []),
+        ...(hasAudio ? ['-map', '[aout]'] : []),
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', MEZZANINE_CRF,
+        '-c:a', 'aac',
+        '-b:a', MEZZANINE_AUDIO_BITRATE,
+        '-f', 'matroska',
+        '-y', output,
+      ],
+      {
+        // FFmpeg reports output time against the duration of the first input
+        onProgress: (progress) => onProgress?.(Math.min(0.99, (progress * durations[0]) / total)),
+      }
+    );
+
+    const data = (await ff.readFile(output)) as Uint8Array;
+    await ff.deleteFile(output);
+    onProgress?.(1);
+    return {
+      media: new Blob([data], { type: hasVideo ? 'video/x-matroska' : 'audio/x-matroska' }),
+      offsets: durations.map((_, i) => durations.slice(0, i).reduce((a, d) => a + d, 0)),
+    };
+  } finally {
+    for (const path of mounted) await ff.unmountInput(path);
+  }
+}
+
+// Rates such as 29.97 are written as the NTSC fraction they stand for
+function frameRateValue(rate: number) {
+  const ntsc = Math.round(rate * 1.001);
+  if (!Number.isInteger(rate) && Math.abs(rate * 1.001 - ntsc) < 0.01) return `${ntsc * 1000}/1001`;
+  return Number.isInteger(rate) ? String(rate) : rate.toFixed(3);
+}
+
+/**
+ * Sidecar captions of one source moved to where it starts on the merged timeline. SRT cues have
+ * the same timing lines as WebVTT, so both are read with the WebVTT parser.
+ */
+export async function offsetCaption(caption: CaptionSource, offsetSec: number): Promise<CaptionSource> {
+  if (!offsetSec) return caption;
+  const cues = clipCues(parseWebVtt(await caption.data.text()), null, offsetSec);
+  return { ...caption, data: new Blob([serializeWebVtt(cues)], { type: 'text/vtt' }), format: 'vtt' };
+}
@@ -0,0 +1,305 @@
+export type IframePlaylist = {
+  playlist: string;
+  bandwidth: number; // peak bits/s over the I-frame entries
+  averageBandwidth: number;
+};
+
+type Box = {
+  type: string;
+  start: number; // offset of the box header
+  dataStart: number; // offset of the payload
+  end: number;
+};
+
+type VideoTrack = {
+  trackId: number;
+  timescale: number;
+  defaultSampleFlags: number;
+  width: number | null; // coded size from the sample entry
+  height: number | null;
+};
+
+type IframeEntry = {
+  file: string;
+  offset: number;
+  length: number;
+  time: number; // seconds
+};
+
+const NON_SYNC_SAMPLE = 0x10000;
+
+/**
+ * Builds an EXT-X-I-FRAMES-ONLY playlist for an fMP4 media playlist. Each entry is a byte range
+ * into the existing segments covering a fragment's moof and its first sync video sample, so no
+ * extra media is stored.
+ */
+export function buildIframePlaylist(
+  mediaPlaylist: string,
+  files: Record<string, Uint8Array>
+): IframePlaylist | null {
+  const lines = mediaPlaylist.split(/\r?\n/);
+  const initName = lines.find((l) => l.startsWith('#EXT-X-MAP'))?.match(/URI="([^"]+)"/)?.[1];
+  if (!initName || !files[initName]) return null;
+
+  const track = findVideoTrack(files[initName]);
+  if (!track) return null;
+
+  const segments: string[] = [];
+  let totalDuration = 0;
+  for (const line of lines) {
+    const extinf = line.match(/^#EXTINF:([\d.]+)/);
+    if (extinf) totalDuration += Number(extinf[1]);
+    else if (line && !line.startsWith('#')) segments.push(line.trim());
+  }
+
+  const entries: IframeEntry[] = [];
+  for (const file of segments) {
+    const data = files[file];
+    if (!data) return null;
+    entries.push(...findKeyframes(data, file, track));
+  }
+  if (entries.length === 0) return null;
+
+  const firstTime = entries[0].time;
+  const out = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:7',
+    '', // target duration, filled in below
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    '#EXT-X-I-FRAMES-ONLY',
+    `#EXT-X-MAP:URI="${initName}"`,
+  ];
+  let maxDuration = 0;
+  let peak = 0;
+  let totalBytes = 0;
+  entries.forEach((entry, i) => {
+    const next = entries[i + 1]?.time ?? firstTime + totalDuration;
+    const duration = Math.max(0.001, next - entry.time);
+    maxDuration = Math.max(maxDuration, duration);
+    peak = Math.max(peak, (entry.length * 8) / duration);
+    totalBytes += entry.length;
+    out.push(`#EXTINF:${duration.toFixed(3)},`, `#EXT-X-BYTERANGE:${entry.length}@${entry.offset}`, entry.file);
+  });
+  out[2] = `#EXT-X-TARGETDURATION:${Math.max(1, Math.ceil(maxDuration))}`;
+  out.push('#EXT-X-ENDLIST', '');
+
+  return {
+    playlist: out.join('\n'),
+    bandwidth: Math.ceil(peak),
+    averageBandwidth: Math.ceil((totalBytes * 8) / Math.max(0.001, totalDuration)),
+  };
+}
+
+/** Coded frame size of the video track described by an fMP4 init segment */
+export function videoDimensions(init: Uint8Array): { width: number; height: number } | null {
+  const track = findVideoTrack(init);
+  return track?.width && track.height ? { width: track.width, height: track.height } : null;
+}
+
+/** Timescale of the video track described by an fMP4 init segment */
+export function videoTimescale(init: Uint8Array): number | null {
+  return findVideoTrack(init)?.timescale ?? null;
+}
+
+/** Base media decode time of the first fragment in an fMP4 segment */
+export function firstDecodeTime(data: Uint8Array): number | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (const moof of readBoxes(view, 0, data.byteLength).filter((b) => b.type === 'moof')) {
+    for (const traf of readBoxes(view, moof.dataStart, moof.end).filter((b) => b.type === 'traf')) {
+      const tfdt = readBoxes(view, traf.dataStart, traf.end).find((b) => b.type === 'tfdt');
+      if (tfdt) return readDecodeTime(view, tfdt);
+    }
+  }
+  return null;
+}
+
+/**
+ * Rewrites an fMP4 segment in place so it continues fragments encoded separately: moof sequence
+ * numbers count on from `sequence` and every decode time is moved by `timeShift` (track
+ * timescale units). Returns the sequence number of the next fragment.
+ */
+export function continueFragments(data: Uint8Array, sequence: number, timeShift: number): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let next = sequence;
+  for (const moof of readBoxes(view, 0, data.byteLength).filter((b) => b.type === 'moof')) {
+    const children = readBoxes(view, moof.dataStart, moof.end);
+    const mfhd = children.find((b) => b.type === 'mfhd');
+    if (mfhd) view.setUint32(mfhd.dataStart + 4, next);
+    next++;
+    for (const traf of children.filter((b) => b.type === 'traf')) {
+      const tfdt = readBoxes(view, traf.dataStart, traf.end).find((b) => b.type === 'tfdt');
+      if (!tfdt) continue;
+      const time = readDecodeTime(view, tfdt) + timeShift;
+      if (time < 0) throw new Error('Fragment decode time would be negative');
+      if (view.getUint8(tfdt.dataStart) === 1) {
+        view.setBigUint64(tfdt.dataStart + 4, BigInt(time));
+      } else {
+        if (time > 0xffffffff) throw new Error('Fragment decode time does not fit a version 0 tfdt');
+        view.setUint32(tfdt.dataStart + 4, time);
+      }
+    }
+  }
+  return next;
+}
+
+function readDecodeTime(view: DataView, tfdt: Box) {
+  return view.getUint8(tfdt.dataStart) === 1
+    ? Number(view.getBigUint64(tfdt.dataStart + 4))
+    : view.getUint32(tfdt.dataStart + 4);
+}
+
+function findVideoTrack(init: Uint8Array): VideoTrack | null {
+  const view = new DataView(init.buffer, init.byteOffset, init.byteLength);
+  const moov = readBoxes(view, 0, init.byteLength).find((b) => b.type === 'moov');
+  if (!moov) return null;
+  const moovChildren = readBoxes(view, moov.dataStart, moov.end);
+
+  for (const trak of moovChildren.filter((b) => b.type === 'trak')) {
+    const trakChildren = readBoxes(view, trak.dataStart, trak.end);
+    const tkhd = trakChildren.find((b) => b.type === 'tkhd');
+    const mdia = trakChildren.find((b) => b.type === 'mdia');
+    if (!tkhd || !mdia) continue;
+    const mdiaChildren = readBoxes(view, mdia.dataStart, mdia.end);
+    const hdlr = mdiaChildren.find((b) => b.type === 'hdlr');
+    const mdhd = mdiaChildren.find((b) => b.type === 'mdhd');
+    if (!hdlr || !mdhd || fourcc(view, hdlr.dataStart + 8) !== 'vide') continue;
+
+    const tkhdVersion = view.getUint8(tkhd.dataStart);
+    const trackId = view.getUint32(tkhd.dataStart + (tkhdVersion === 1 ? 20 : 12));
+    const mdhdVersion = view.getUint8(mdhd.dataStart);
+    const timescale = view.getUint32(mdhd.dataStart + (mdhdVersion === 1 ? 20 : 12));
+
+    // Fragment defaults from mvex/trex
+    let defaultSampleFlags = 0;
+    const mvex = moovChildren.find((b) => b.type === 'mvex');
+    if (mvex) {
+      for (const trex of readBoxes(view, mvex.dataStart, mvex.end).filter((b) => b.type === 'trex')) {
+        if (view.getUint32(trex.dataStart + 4) === trackId) defaultSampleFlags = view.getUint32(trex.dataStart + 20);
+      }
+    }
+    // First sample entry (avc1, or encv when encrypted): 8 bytes of reserved and data reference
+    // index, 16 of pre-defined and reserved, then width and height
+    let width: number | null = null;
+    let height: number | null = null;
+    const minf = mdiaChildren.find((b) => b.type === 'minf');
+    const stbl = minf && readBoxes(view, minf.dataStart, minf.end).find((b) => b.type === 'stbl');
+    const stsd = stbl && readBoxes(view, stbl.dataStart, stbl.end).find((b) => b.type === 'stsd');
+    const entry = stsd && readBoxes(view, stsd.dataStart + 8, stsd.end)[0];
+    if (entry && entry.dataStart + 28 <= entry.end) {
+      width = view.getUint16(entry.dataStart + 24);
+      height = view.getUint16(entry.dataStart + 26);
+    }
+    return { trackId, timescale, defaultSampleFlags, width, height };
+  }
+  return null;
+}
+
+function findKeyframes(data: Uint8Array, file: string, track: VideoTrack): IframeEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries: IframeEntry[] = [];
+
+  for (const moof of readBoxes(view, 0, data.byteLength).filter((b) => b.type === 'moof')) {
+    for (const traf of readBoxes(view, moof.dataStart, moof.end).filter((b) => b.type === 'traf')) {
+      const children = readBoxes(view, traf.dataStart, traf.end);
+      const tfhd = children.find((b) => b.type === 'tfhd');
+      if (!tfhd || view.getUint32(tfhd.dataStart + 4) !== track.trackId) continue;
+
+      // tfhd: optional fields follow track_ID in flag order
+      const tfhdFlags = view.getUint32(tfhd.dataStart) & 0xffffff;
+      let p = tfhd.dataStart + 8;
+      let baseOffset = moof.start;
+      if (tfhdFlags & 0x1) {
+        baseOffset = Number(view.getBigUint64(p));
+        p += 8;
+      }
+      if (tfhdFlags & 0x2) p += 4;
+      let defaultDuration = 0;
+      if (tfhdFlags & 0x8) {
+        defaultDuration = view.getUint32(p);
+        p += 4;
+      }
+      let defaultSize = 0;
+      if (tfhdFlags & 0x10) {
+        defaultSize = view.getUint32(p);
+        p += 4;
+      }
+      const defaultFlags = tfhdFlags & 0x20 ? view.getUint32(p) : track.defaultSampleFlags;
+
+      const tfdt = children.find((b) => b.type === 'tfdt');
+      const decodeTime = tfdt ? readDecodeTime(view, tfdt) : 0;
+
+      let sampleTime = decodeTime;
+      let found = false;
+      for (const trun of children.filter((b) => b.type === 'trun')) {
+        const trunFlags = view.getUint32(trun.dataStart) & 0xffffff;
+        const sampleCount = view.getUint32(trun.dataStart + 4);
+        let q = trun.dataStart + 8;
+        const next = () => {
+          const value = view.getUint32(q);
+          q += 4;
+          return value;
+        };
+        let dataOffset = 0;
+        if (trunFlags & 0x1) {
+          dataOffset = view.getInt32(q);
+          q += 4;
+        }
+        const firstSampleFlags = trunFlags & 0x4 ? next() : null;
+
+        let sampleOffset = baseOffset + dataOffset;
+        for (let i = 0; i < sampleCount && !found; i++) {
+          const duration = trunFlags & 0x100 ? next() : defaultDuration;
+          const size = trunFlags & 0x200 ? next() : defaultSize;
+          let flags = i === 0 && firstSampleFlags !== null ? firstSampleFlags : defaultFlags;
+          if (trunFlags & 0x400) flags = next();
+          if (trunFlags & 0x800) next(); // composition time offset
+
+          if (!(flags & NON_SYNC_SAMPLE)) {
+            // One I-frame per fragment is plenty for trick play
+            entries.push({
+              file,
+              offset: moof.start,
+              length: sampleOffset + size - moof.start,
+              time: sampleTime / track.timescale,
+            });
+            found = true;
+          }
+          sampleOffset += size;
+          sampleTime += duration;
+        }
+        if (found) break;
+      }
+    }
+  }
+  return entries;
+}
+
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let p = start;
+  while (p + 8 <= end) {
+    let size = view.getUint32(p);
+    const type = fourcc(view, p + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(p + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - p;
+    }
+    if (size < header || p + size > end) break;
+    boxes.push({ type, start: p, dataStart: p + header, end: p + size });
+    p += size;
+  }
+  return boxes;
+}
+
+function fourcc(view: DataView, offset: number) {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
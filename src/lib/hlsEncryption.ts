@@ -0,0 +1,154 @@
+export type HlsEncryptionMethod = 'aes-128' | 'sample-aes';
+
+/** Content key issued by the content-key edge function */
+export type HlsEncryption = {
+  method: HlsEncryptionMethod;
+  keyHex: string;
+  ivHex: string;
+  kidHex: string;
+  keyUri: string;
+  licenseUri?: string; // ClearKey license endpoint written into DASH manifests
+};
+
+// DASH-IF ClearKey uses the W3C common PSSH system ID
+const CLEARKEY_SYSTEM_ID = '1077efec-c0b2-4d02-ace3-3c1e52e2fb4b';
+
+/**
+ * Options for the fMP4 muxer to encrypt samples in place (CENC, AES-CTR). Sizes and offsets are
+ * unchanged, so byte-range I-frame playlists keep working.
+ */
+export function sampleEncryptionOptions(encryption: HlsEncryption) {
+  return `encryption_scheme=cenc-aes-ctr:encryption_key=${encryption.keyHex}:encryption_kid=${encryption.kidHex}`;
+}
+
+/**
+ * Adds the EXT-X-KEY tag to a media playlist and, for AES-128, encrypts every media segment it
+ * lists in place (AES-CBC with PKCS7 padding). Init sections stay in the clear: the tag is placed
+ * after EXT-X-MAP so it only applies to the segments that follow. Pass `segments: false` when the
+ * segments were already encrypted with encryptSegments.
+ */
+export async function encryptMediaPlaylist(
+  playlistName: string,
+  files: Record<string, Uint8Array>,
+  encryption: HlsEncryption,
+  { segments = true }: { segments?: boolean } = {}
+) {
+  const lines = new TextDecoder().decode(files[playlistName]).split('\n');
+  const mapIndex = lines.findIndex((l) => l.startsWith('#EXT-X-MAP'));
+  const insertAt = mapIndex !== -1 ? mapIndex + 1 : lines.findIndex((l) => l.startsWith('#EXTINF'));
+  if (insertAt === -1) return;
+  lines.splice(insertAt, 0, keyTag(encryption));
+  files[playlistName] = new TextEncoder().encode(lines.join('\n'));
+
+  if (segments) await encryptSegments(sequencedSegments(lines.join('\n')), files, encryption);
+}
+
+/** A media segment with the media sequence number it has in its playlist */
+export type SequencedSegment = { name: string; sequence: number };
+
+/** The segments a media playlist lists, numbered from its EXT-X-MEDIA-SEQUENCE */
+export function sequencedSegments(playlist: string): SequencedSegment[] {
+  const lines = playlist.split(/\r?\n/);
+  const first = Number(lines.find((l) => l.startsWith('#EXT-X-MEDIA-SEQUENCE:'))?.slice(22) ?? 0);
+  return lines
+    .filter((l) => l && !l.startsWith('#'))
+    .map((l, i) => ({ name: l.trim(), sequence: first + i }));
+}
+
+/**
+ * AES-128 encrypts the given media segments in place, each with its media sequence number as the
+ * IV, which is what players use when EXT-X-KEY has no IV attribute. Other methods encrypt samples
+ * while muxing and leave the files as they are.
+ */
+export async function encryptSegments(
+  segments: SequencedSegment[],
+  files: Record<string, Uint8Array>,
+  encryption: HlsEncryption
+) {
+  if (encryption.method !== 'aes-128') return;
+
+  const key = await crypto.subtle.importKey('raw', hexToBytes(encryption.keyHex), 'AES-CBC', false, ['encrypt']);
+  const encrypted = new Set<string>();
+  for (const { name, sequence } of segments) {
+    if (!files[name] || encrypted.has(name)) continue;
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-CBC', iv: sequenceIv(sequence) }, key, files[name]);
+    files[name] = new Uint8Array(cipher);
+    encrypted.add(name);
+  }
+}
+
+/**
+ * Signals CENC protection in a DASH manifest: every AdaptationSet gets the mp4protection element
+ * carrying the default KID and a ClearKey element with a PSSH and the license URL, which is what
+ * players configure EME from.
+ */
+export function protectDashManifest(
+  manifestName: string,
+  files: Record<string, Uint8Array>,
+  encryption: HlsEncryption
+) {
+  let mpd = new TextDecoder().decode(files[manifestName]);
+  if (!/xmlns:cenc=/.test(mpd)) mpd = mpd.replace(/<MPD\b/, '<MPD xmlns:cenc="urn:mpeg:cenc:2013"');
+  if (!/xmlns:dashif=/.test(mpd)) mpd = mpd.replace(/<MPD\b/, '<MPD xmlns:dashif="https://dashif.org/CPS"');
+
+  const pssh = toBase64(clearKeyPssh(encryption.kidHex));
+  const laurl = encryption.licenseUri ? escapeXml(encryption.licenseUri) : null;
+  mpd = mpd.replace(/^([ \t]*)(<AdaptationSet\b[^>]*[^/]>)/gm, (_, indent: string, tag: string) => {
+    const child = `${indent}\t`;
+    return [
+      `${indent}${tag}`,
+      `${child}<ContentProtection schemeIdUri="urn:mpeg:dash:mp4protection:2011" value="cenc" cenc:default_KID="${toUuid(encryption.kidHex)}"/>`,
+      `${child}<ContentProtection schemeIdUri="urn:uuid:${CLEARKEY_SYSTEM_ID}" value="ClearKey1.0">`,
+      `${child}\t<cenc:pssh>${pssh}</cenc:pssh>`,
+      ...(laurl ? [`${child}\t<dashif:Laurl>${laurl}</dashif:Laurl>`] : []),
+      `${child}</ContentProtection>`,
+    ].join('\n');
+  });
+  files[manifestName] = new TextEncoder().encode(mpd);
+}
+
+/** Version 1 'pssh' box listing the key ID, no system-specific data */
+function clearKeyPssh(kidHex: string) {
+  const box = new Uint8Array(52);
+  const view = new DataView(box.buffer);
+  view.setUint32(0, box.byteLength);
+  box.set(new TextEncoder().encode('pssh'), 4);
+  view.setUint32(8, 0x01000000); // version 1, no flags
+  box.set(hexToBytes(CLEARKEY_SYSTEM_ID.replace(/-/g, '')), 12);
+  view.setUint32(28, 1); // KID count
+  box.set(hexToBytes(kidHex), 32);
+  view.setUint32(48, 0); // data size
+  return box;
+}
+
+function keyTag({ method, keyUri }: HlsEncryption) {
+  // No IV attribute: every segment is decrypted with its own media sequence number
+  if (method === 'aes-128') return `#EXT-X-KEY:METHOD=AES-128,URI="${keyUri}"`;
+  // fMP4 sample encryption is signalled as CENC with the identity key format
+  return `#EXT-X-KEY:METHOD=SAMPLE-AES-CTR,URI="${keyUri}",KEYFORMAT="identity",KEYFORMATVERSIONS="1"`;
+}
+
+// The media sequence number as a 128-bit big-endian integer (RFC 8216, section 5.2)
+function sequenceIv(sequence: number) {
+  const iv = new Uint8Array(16);
+  const view = new DataView(iv.buffer);
+  view.setUint32(8, Math.floor(sequence / 2 ** 32));
+  view.setUint32(12, sequence >>> 0);
+  return iv;
+}
+
+function hexToBytes(hex: string) {
+  return new Uint8Array(hex.match(/../g)!.map((h) => parseInt(h, 16)));
+}
+
+function toUuid(hex: string) {
+  return hex.toLowerCase().replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5');
+}
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -1,126 +1,1281 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { fetchFile } from '@ffmpeg/util';
+import { clipCues, type ClipRange } from './clipRanges';
+import type { MediaProbe, ProbeStream } from './mediaProbe';
+import { parseWebVtt, segmentWebVtt, serializeWebVtt } from './webvtt';
+import { buildIframePlaylist, continueFragments, firstDecodeTime, videoDimensions, videoTimescale } from './fmp4';
+import {
+  encryptMediaPlaylist,
+  encryptSegments,
+  protectDashManifest,
+  sampleEncryptionOptions,
+  sequencedSegments,
+  type HlsEncryption,
+  type SequencedSegment,
+} from './hlsEncryption';
+import { loudnormFilter, loudnormLog, type LoudnessNormalization, type LoudnessStats } from './loudness';
+import { videoFilterInputArgs, videoFilterOutputArgs, type VideoFilterPipeline } from './videoFilters';
+import type { TranscoderSession } from './transcoderSession';
 
-let ffmpeg: FFmpeg | null = null;
+export type LadderRung = {
+  label: string;
+  width: number;
+  height: number;
+  videoBitrate: number; // kbps target
+  maxBitrate: number; // kbps cap
+  audioBitrate?: number; // kbps
+};
+
+export type AudioRung = {
+  label: string;
+  bitrate: number; // kbps
+};
+
+export type HlsRendition = {
+  label: string;
+  width: number | null; // null for audio-only renditions
+  height: number | null;
+  bandwidth: number;
+  averageBandwidth: number;
+  codecs: string;
+  playlistName: string;
+  sizeBytes: number;
+  iframe?: HlsIframeRendition; // trick play playlist over the same segments, video renditions only
+};
+
+export type HlsIframeRendition = {
+  playlistName: string;
+  bandwidth: number;
+  averageBandwidth: number;
+};
 
 export type HlsOutput = {
   files: Record<string, Uint8Array>;
   masterName: string;
-  variantName: string;
-  resolution: { width: number; height: number; label: string };
-  approxBitrate: number;
-};
-
-export async function getFFmpeg(log = false) {
-  if (!ffmpeg) ffmpeg = new FFmpeg();
-  if (!ffmpeg.loaded) {
-    if (log) ffmpeg.on('log', ({ message }) => console.log('[ffmpeg]', message));
-    const coreVersion = '0.12.7';
-    const baseURL = `https://cdn.jsdelivr.net/npm/@ffmpeg/core@${coreVersion}/dist/umd`;
-    await ffmpeg.load({
-      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-      wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
+  renditions: HlsRendition[];
+  dashManifestName?: string; // set when the segments are also described by a DASH MPD (CMAF)
+  audioOnly: boolean;
+  audioTracks: HlsAudioTrack[]; // alternate audio renditions (EXT-X-MEDIA), empty when muxed
+  subtitleTracks: HlsSubtitleTrack[];
+  loudness?: LoudnessStats; // second loudnorm pass over the main audio track
+};
+
+export type DashRepresentation = {
+  label: string;
+  width: number | null; // null for the audio representation of audio-only sources
+  height: number | null;
+  bandwidth: number;
+  codecs: string;
+  sizeBytes: number;
+};
+
+export type DashOutput = {
+  files: Record<string, Uint8Array>;
+  manifestName: string;
+  representations: DashRepresentation[];
+  loudness?: LoudnessStats;
+};
+
+export type HlsOptions = {
+  ladder?: LadderRung[];
+  audioLadder?: AudioRung[]; // used instead of the video ladder when the probe finds no video
+  segmentDuration?: number; // seconds
+  cmaf?: boolean; // single encode shared by an HLS master playlist and a DASH MPD
+  probe?: MediaProbe; // source metadata; rungs above the source height are skipped
+  audioTracks?: 'first' | 'all'; // 'all' splits every probed audio stream into its own rendition
+  captions?: CaptionSource[]; // sidecar SRT/VTT files
+  embeddedSubtitles?: boolean; // extract text subtitle streams found by the probe (default true)
+  encryption?: HlsEncryption; // AES-128 is HLS only; SAMPLE-AES is CENC, which DASH signals for ClearKey
+  loudness?: LoudnessNormalization; // first pass measurements; every audio encode applies the second pass
+  videoFilters?: VideoFilterPipeline; // filters run before scaling to every rung
+};
+
+export type CaptionSource = {
+  data: Blob;
+  format: 'srt' | 'vtt';
+  language?: string;
+  label?: string;
+  ranges?: ClipRange[]; // kept parts of the source the captions were written for
+  offsetSec?: number; // added to every cue after clipping, e.g. the length of an intro placed before the source
+};
+
+// Options after defaults are applied and the ladder is fitted to the source
+type EncodePlan = {
+  ladder: LadderRung[];
+  audioLadder: AudioRung[];
+  segmentDuration: number;
+  probe?: MediaProbe;
+  captions: CaptionSource[];
+  embeddedSubtitles: boolean;
+  encryption?: HlsEncryption;
+  loudness?: LoudnessNormalization;
+  videoFilters?: VideoFilterPipeline;
+};
+
+type AudioGroup = {
+  groupId: string;
+  name: string;
+  playlistName: string;
+  isDefault: boolean;
+  language?: string;
+  channels?: number;
+};
+
+type SubtitleGroup = {
+  groupId: string;
+  name: string;
+  playlistName: string;
+  isDefault: boolean;
+  language?: string;
+  forced?: boolean;
+};
+
+type PackagedSubtitles = {
+  groups: SubtitleGroup[];
+  files: Record<string, Uint8Array>;
+};
+
+export type HlsSubtitleTrack = {
+  name: string;
+  language?: string;
+  playlistName: string;
+};
+
+export type HlsAudioTrack = {
+  name: string;
+  language?: string;
+  playlistName: string;
+  isDefault: boolean;
+};
+
+export type HlsChunk = {
+  index: number;
+  start: number; // seconds, a source keyframe
+  duration: number | null; // seconds, null for the last chunk
+};
+
+// Video-only variant playlists of one chunk, named like a full encode
+export type HlsChunkOutput = {
+  chunk: HlsChunk;
+  files: Record<string, Uint8Array>;
+};
+
+// Stitched variants of a chunked encode, in ladder order. Plain data, so it can be stored with the job.
+export type HlsStitchState = {
+  variants: StitchedVariant[];
+};
+
+type StitchedVariant = {
+  initName: string;
+  timescale: number;
+  segments: { name: string; duration: number }[];
+  nextSequence: number; // moof sequence number of the next fragment
+  sizeBytes: number;
+};
+
+// Alternate audio renditions and subtitles, encoded once over the whole source
+export type HlsSideTracks = {
+  files: Record<string, Uint8Array>;
+  audio: AudioGroup[];
+  subtitles: SubtitleGroup[];
+  loudness?: LoudnessStats;
+};
+
+export const DEFAULT_LADDER: LadderRung[] = [
+  { label: '1080p', width: 1920, height: 1080, videoBitrate: 5000, maxBitrate: 5350 },
+  { label: '720p', width: 1280, height: 720, videoBitrate: 2800, maxBitrate: 3000 },
+  { label: '480p', width: 854, height: 480, videoBitrate: 1400, maxBitrate: 1500 },
+  { label: '360p', width: 640, height: 360, videoBitrate: 800, maxBitrate: 856, audioBitrate: 96 },
+];
+
+export const DEFAULT_AUDIO_LADDER: AudioRung[] = [
+  { label: '192k', bitrate: 192 },
+  { label: '128k', bitrate: 128 },
+  { label: '64k', bitrate: 64 },
+];
+
+const DEFAULT_AUDIO_BITRATE = 128; // kbps
+const AAC_LC_CODEC = 'mp4a.40.2';
+const GOP_SIZE = 48;
+// Chunks shorter than this many segments cost more in FFmpeg start-up than they save
+const MIN_CHUNK_SEGMENTS = 5;
+// Embedded subtitle codecs that carry text and can be converted to WebVTT (bitmap ones cannot)
+export const TEXT_SUBTITLE_CODECS = new Set(['mov_text', 'subrip', 'srt', 'webvtt', 'ass', 'ssa', 'text']);
+
+/**
+ * Transcodes a media Blob to HLS (one fMP4 variant per ladder rung) and returns generated files.
+ * Every rung is encoded with the same fixed GOP and forced keyframes on segment boundaries so
+ * players can switch between variants at any segment.
+ */
+export async function transcodeToHls(
+  ff: TranscoderSession,
+  media: Blob,
+  onProgress?: (ratio: number) => void,
+  options: HlsOptions = {}
+): Promise<HlsOutput> {
+  const plan = planEncode(options);
+  const audioOnly = !!plan.probe && !plan.probe.hasVideo;
+  // HLS players decrypt segment keys as AES-128 only, CENC plays through the DASH manifest of a
+  // CMAF encode
+  if (plan.encryption?.method === 'sample-aes' && (!options.cmaf || audioOnly)) {
+    throw new Error('SAMPLE-AES (CENC) needs a DASH or CMAF job with video; use AES-128 for HLS');
+  }
+  if (audioOnly) return transcodeAudioToHls(ff, media, onProgress, plan);
+  if (options.cmaf) return transcodeToCmaf(ff, media, onProgress, plan);
+  const { ladder, probe } = plan;
+
+  // Several source audio streams become alternate renditions instead of being muxed per variant
+  const audioStreams = probe?.streams.filter((st) => st.type === 'audio') ?? [];
+  const separateAudio = (options.audioTracks ?? 'all') === 'all' && audioStreams.length > 1;
+  const steps = ladder.length + (separateAudio ? audioStreams.length : 0);
+
+  let stepIndex = 0;
+  const onStepProgress = (progress: number) => {
+    const overall = (stepIndex + Math.max(0, Math.min(1, progress))) / steps;
+    onProgress?.(Math.min(0.99, overall));
+  };
+
+  const inputFile = await mountInput(ff, media);
+  const loudness = loudnormLog();
+
+  const renditions: HlsRendition[] = [];
+  const filesByRendition: string[][] = [];
+  const audio: AudioGroup[] = [];
+
+  if (separateAudio) {
+    const hasDefault = audioStreams.some((st) => st.isDefault);
+    for (const [n, stream] of audioStreams.entries()) {
+      const isDefault = hasDefault ? stream.isDefault : n === 0;
+      audio.push(await encodeAudioRendition(ff, inputFile, plan, stream, n, isDefault, onStepProgress, loudness.onLog));
+      stepIndex++;
+    }
+  }
+
+  for (const rung of ladder) {
+    const { playlistName, initName, segPattern } = variantNames(rung);
+    const aBitrate = rung.audioBitrate ?? DEFAULT_AUDIO_BITRATE;
+
+    // Build HLS fMP4 variant for this rung
+    await ff.exec([
+      ...videoFilterInputArgs(plan.videoFilters),
+      '-i', inputFile,
+      '-map', '0:v:0',
+      ...(separateAudio ? ['-an'] : [...audioMap(probe), ...loudnessArgs(plan, 0)]),
+      ...videoRungArgs(rung, plan),
+      '-c:a', 'aac',
+      '-b:a', `${aBitrate}k`,
+      '-ac', '2',
+      '-ar', '48000',
+      ...hlsFmp4Args(plan, initName, segPattern),
+      playlistName,
+    ], { onProgress: onStepProgress, onLog: loudness.onLog });
+
+    filesByRendition.push(await readVariantFiles(ff, playlistName, initName));
+    renditions.push(videoRendition(rung, probe, separateAudio));
+
+    stepIndex++;
+  }
+
+  const subtitles = await packageSubtitles(ff, inputFile, plan);
+  await ff.unmountInput(inputFile);
+
+  const output = await writeMasterAndCollect(ff, renditions, filesByRendition, { audio, subtitles, encryption: plan.encryption });
+  onProgress?.(1);
+  return { ...output, loudness: loudness.stats() ?? undefined };
+}
+
+/**
+ * Audio-only sources (MP3, WAV, ...): one AAC fMP4 rendition per audio ladder rung, advertised
+ * in the master playlist without RESOLUTION and with an audio-only CODECS attribute
+ */
+async function transcodeAudioToHls(
+  ff: TranscoderSession,
+  media: Blob,
+  onProgress: ((ratio: number) => void) | undefined,
+  plan: EncodePlan
+): Promise<HlsOutput> {
+  const { audioLadder } = plan;
+
+  let rungIndex = 0;
+  const onRungProgress = (progress: number) => {
+    const overall = (rungIndex + Math.max(0, Math.min(1, progress))) / audioLadder.length;
+    onProgress?.(Math.min(0.99, overall));
+  };
+
+  const inputFile = await mountInput(ff, media);
+  const loudness = loudnormLog();
+
+  const renditions: HlsRendition[] = [];
+  const filesByRendition: string[][] = [];
+
+  for (const rung of audioLadder) {
+    const variantName = `a${rung.label}.m3u8`;
+    const initName = `a${rung.label}_init.mp4`;
+    const segPattern = `a${rung.label}_%03d.m4s`;
+
+    await ff.exec([
+      '-i', inputFile,
+      '-map', '0:a:0',
+      '-vn',
+      ...loudnessArgs(plan, 0),
+      '-c:a', 'aac',
+      '-b:a', `${rung.bitrate}k`,
+      '-ac', '2',
+      '-ar', '48000',
+      ...hlsFmp4Args(plan, initName, segPattern),
+      variantName,
+    ], { onProgress: onRungProgress, onLog: loudness.onLog });
+
+    filesByRendition.push(await readVariantFiles(ff, variantName, initName));
+
+    renditions.push({
+      label: rung.label,
+      width: null,
+      height: null,
+      bandwidth: Math.ceil(rung.bitrate * 1.1) * 1000,
+      averageBandwidth: rung.bitrate * 1000,
+      codecs: AAC_LC_CODEC,
+      playlistName: variantName,
+      sizeBytes: 0,
     });
+
+    rungIndex++;
   }
-  return ffmpeg;
+
+  const subtitles = await packageSubtitles(ff, inputFile, plan);
+  await ff.unmountInput(inputFile);
+
+  const output = await writeMasterAndCollect(ff, renditions, filesByRendition, {
+    subtitles,
+    encryption: plan.encryption,
+  });
+  onProgress?.(1);
+  return { ...output, loudness: loudness.stats() ?? undefined };
+}
+
+// Reads a variant playlist and returns it with every file it references
+async function readVariantFiles(ff: TranscoderSession, variantName: string, initName: string) {
+  const variantU8 = (await ff.readFile(variantName)) as Uint8Array;
+  const variantText = new TextDecoder().decode(variantU8);
+  const variantFiles = parseHlsFiles(variantText);
+  variantFiles.add(variantName);
+  variantFiles.add(initName);
+  return [...variantFiles];
+}
+
+async function writeMasterAndCollect(
+  ff: TranscoderSession,
+  renditions: HlsRendition[],
+  filesByRendition: string[][],
+  {
+    audio = [],
+    subtitles = { groups: [], files: {} },
+    encryption,
+  }: { audio?: AudioGroup[]; subtitles?: PackagedSubtitles; encryption?: HlsEncryption } = {}
+): Promise<HlsOutput> {
+  // Segments are needed in memory to locate the I-frames
+  const files: Record<string, Uint8Array> = { ...subtitles.files };
+  for (const f of filesByRendition.flat()) {
+    files[f] = (await ff.readFile(f)) as Uint8Array;
+  }
+  renditions.forEach((r, i) => {
+    r.sizeBytes = filesByRendition[i].reduce((a, f) => a + files[f].byteLength, 0);
+  });
+
+  // Collect everything else the playlists reference (alternate audio renditions, ...)
+  return finishHlsOutput(renditions, files, {
+    audio,
+    subtitles: subtitles.groups,
+    encryption,
+    readFile: async (name) => (await ff.readFile(name)) as Uint8Array,
+  });
 }
 
 /**
- * Transcodes a media Blob to HLS (single 720p fMP4 variant) and returns generated files
+ * Adds I-frame playlists and the master playlist to the variant files, collects every file the
+ * playlists reference and applies AES-128 / SAMPLE-AES playlist signalling
  */
-export async function transcodeToHls(
+async function finishHlsOutput(
+  renditions: HlsRendition[],
+  files: Record<string, Uint8Array>,
+  {
+    audio = [],
+    subtitles = [],
+    encryption,
+    segmentsEncrypted = false,
+    readFile,
+  }: {
+    audio?: AudioGroup[];
+    subtitles?: SubtitleGroup[];
+    encryption?: HlsEncryption;
+    segmentsEncrypted?: boolean; // AES-128 segments were encrypted before they were stored
+    readFile: (name: string) => Promise<Uint8Array>;
+  }
+): Promise<HlsOutput> {
+  const masterName = 'master.m3u8';
+
+  await measureRenditions(renditions, audio, files, readFile);
+
+  // Byte ranges into AES-128 (whole segment) encrypted media cannot be decrypted on their own
+  if (encryption?.method !== 'aes-128') addIframePlaylists(renditions, files);
+
+  // Create the multi-variant master playlist
+  const master = buildMasterPlaylist(renditions, { audio, subtitles });
+  files[masterName] = new TextEncoder().encode(master);
+
+  await collectPlaylistFiles(masterName, files, readFile);
+
+  if (encryption) {
+    const mediaPlaylists = [...renditions.map((r) => r.playlistName), ...audio.map((a) => a.playlistName)];
+    for (const playlistName of mediaPlaylists) {
+      await encryptMediaPlaylist(playlistName, files, encryption, { segments: !segmentsEncrypted });
+    }
+  }
+
+  return {
+    files,
+    masterName,
+    renditions,
+    audioOnly: renditions.every((r) => r.width === null),
+    audioTracks: audio.map(toAudioTrack),
+    subtitleTracks: subtitles.map(toSubtitleTrack),
+  };
+}
+
+/**
+ * Picks chunk boundaries for a parallel encode: the source keyframe nearest to each even split
+ * point, skipping any that would leave a chunk shorter than a few segments. Starting chunks on
+ * source keyframes lets every chunk seek straight to its first frame.
+ */
+export function planHlsChunks(keyframes: number[], durationSec: number, count: number, options: HlsOptions = {}): HlsChunk[] {
+  const minLength = planEncode(options).segmentDuration * MIN_CHUNK_SEGMENTS;
+  const starts = [0];
+  for (let k = 1; k < count && keyframes.length > 0; k++) {
+    const target = (durationSec * k) / count;
+    let nearest = keyframes[0];
+    for (const time of keyframes) if (Math.abs(time - target) < Math.abs(nearest - target)) nearest = time;
+    if (nearest - starts[starts.length - 1] >= minLength && durationSec - nearest >= minLength) starts.push(nearest);
+  }
+  return starts.map((start, index) => ({
+    index,
+    start,
+    duration: index + 1 < starts.length ? starts[index + 1] - start : null,
+  }));
+}
+
+/**
+ * Encodes one chunk of the video ladder without audio. Forced keyframes restart at the chunk
+ * start, so each chunk begins a new segment and stitched variants stay aligned across rungs.
+ */
+export async function encodeHlsChunk(
+  ff: TranscoderSession,
+  media: Blob,
+  chunk: HlsChunk,
+  onProgress?: (ratio: number) => void,
+  options: HlsOptions = {}
+): Promise<HlsChunkOutput> {
+  const plan = planEncode(options);
+  const { ladder } = plan;
+
+  let rungIndex = 0;
+  const onRungProgress = (progress: number) => {
+    const overall = (rungIndex + Math.max(0, Math.min(1, progress))) / ladder.length;
+    onProgress?.(Math.min(0.99, overall));
+  };
+
+  const inputFile = await mountInput(ff, media);
+  const files: Record<string, Uint8Array> = {};
+
+  for (const rung of ladder) {
+    const { playlistName, initName, segPattern } = variantNames(rung);
+    // Input seeking lands on the chunk's keyframe; -t before -i stops reading at the next chunk
+    await ff.exec([
+      '-ss', chunk.start.toFixed(6),
+      ...(chunk.duration !== null ? ['-t', chunk.duration.toFixed(6)] : []),
+      ...videoFilterInputArgs(plan.videoFilters),
+      '-i', inputFile,
+      '-map', '0:v:0',
+      '-an',
+      ...videoRungArgs(rung, plan),
+      ...hlsFmp4Args(plan, initName, segPattern),
+      playlistName,
+    ], { onProgress: onRungProgress });
+
+    // Rungs reuse file names, move the outputs out of the FS before the next one
+    for (const name of await readVariantFiles(ff, playlistName, initName)) {
+      files[name] = (await ff.readFile(name)) as Uint8Array;
+      await ff.deleteFile(name);
+    }
+    rungIndex++;
+  }
+
+  await ff.unmountInput(inputFile);
+  onProgress?.(1);
+  return { chunk, files };
+}
+
+/**
+ * Encodes what a chunked encode leaves out of its chunks: every selected audio stream as an
+ * alternate AAC rendition and the subtitle renditions, each over the whole source
+ */
+export async function encodeHlsSideTracks(
+  ff: TranscoderSession,
   media: Blob,
-  onProgress?: (ratio: number) => void
+  onProgress?: (ratio: number) => void,
+  options: HlsOptions = {}
+): Promise<HlsSideTracks> {
+  const plan = planEncode(options);
+  const audioStreams = plan.probe?.streams.filter((st) => st.type === 'audio') ?? [];
+  const selected = (options.audioTracks ?? 'all') === 'all' ? audioStreams : audioStreams.slice(0, 1);
+  const steps = selected.length + 1;
+
+  let stepIndex = 0;
+  const onStepProgress = (progress: number) => {
+    const overall = (stepIndex + Math.max(0, Math.min(1, progress))) / steps;
+    onProgress?.(Math.min(0.99, overall));
+  };
+
+  const inputFile = await mountInput(ff, media);
+  const loudness = loudnormLog();
+  const files: Record<string, Uint8Array> = {};
+  const audio: AudioGroup[] = [];
+
+  const hasDefault = selected.some((st) => st.isDefault);
+  for (const [n, stream] of selected.entries()) {
+    const isDefault = hasDefault ? stream.isDefault : n === 0;
+    const group = await encodeAudioRendition(ff, inputFile, plan, stream, n, isDefault, onStepProgress, loudness.onLog);
+    const names = await readVariantFiles(ff, group.playlistName, audioInitName(stream));
+    for (const name of names) {
+      files[name] = (await ff.readFile(name)) as Uint8Array;
+      await ff.deleteFile(name);
+    }
+    // Side tracks may be stored before the encode finishes, never in the clear
+    if (plan.encryption) {
+      await encryptSegments(sequencedSegments(new TextDecoder().decode(files[group.playlistName])), files, plan.encryption);
+    }
+    audio.push(group);
+    stepIndex++;
+  }
+
+  const subtitles = await packageSubtitles(ff, inputFile, plan);
+  await ff.unmountInput(inputFile);
+  Object.assign(files, subtitles.files);
+
+  onProgress?.(1);
+  return { files, audio, subtitles: subtitles.groups, loudness: loudness.stats() ?? undefined };
+}
+
+/**
+ * Appends the next chunk of a chunked encode to the stitched variants. The first chunk's init
+ * segment serves every chunk (all chunks share the encoder settings); later segments are renamed
+ * in order, their fragments renumbered and moved to the chunk's place on the source timeline, and
+ * AES-128 encrypted, so the returned files can be stored as they are. Chunks must be appended in
+ * order.
+ */
+export async function stitchHlsChunk(
+  state: HlsStitchState | null,
+  { chunk, files: chunkFiles }: HlsChunkOutput,
+  options: HlsOptions = {}
+): Promise<{ state: HlsStitchState; files: Record<string, Uint8Array> }> {
+  const plan = planEncode(options);
+  const files: Record<string, Uint8Array> = {};
+  const decoder = new TextDecoder();
+  const stitched: SequencedSegment[] = [];
+
+  const variants = plan.ladder.map((rung, i): StitchedVariant => {
+    const { playlistName, initName } = variantNames(rung);
+    const previous = state?.variants[i];
+    let init: Uint8Array | undefined;
+    if (!previous) {
+      init = chunkFiles[initName];
+      if (!init) throw new Error(`Chunk ${chunk.index} did not produce ${initName}`);
+      files[initName] = init;
+    }
+    const timescale = previous?.timescale ?? (init && videoTimescale(init));
+    if (!timescale) throw new Error(`${initName} has no video track`);
+
+    const playlist = chunkFiles[playlistName];
+    if (!playlist) throw new Error(`Chunk ${chunk.index} did not produce ${playlistName}`);
+    const segments = parseMediaSegments(decoder.decode(playlist));
+    if (segments.length === 0) throw new Error(`Chunk ${chunk.index} produced an empty ${playlistName}`);
+
+    const variant: StitchedVariant = previous
+      ? { ...previous, segments: [...previous.segments] }
+      : { initName, timescale, segments: [], nextSequence: 1, sizeBytes: init!.byteLength };
+    const first = chunkFiles[segments[0].uri];
+    const shift = Math.round(chunk.start * timescale) - ((first && firstDecodeTime(first)) ?? 0);
+    for (const segment of segments) {
+      const data = chunkFiles[segment.uri];
+      if (!data) throw new Error(`Chunk ${chunk.index} is missing ${segment.uri}`);
+      variant.nextSequence = continueFragments(data, variant.nextSequence, shift);
+      const name = `v${rung.label}_${String(variant.segments.length).padStart(3, '0')}.m4s`;
+      files[name] = data;
+      // Stitched playlists start at media sequence 0
+      stitched.push({ name, sequence: variant.segments.length });
+      variant.sizeBytes += data.byteLength;
+      variant.segments.push({ name, duration: segment.duration });
+    }
+    return variant;
+  });
+
+  if (plan.encryption) await encryptSegments(stitched, files, plan.encryption);
+  return { state: { variants }, files };
+}
+
+/**
+ * Writes the stitched variant playlists and finishes the output like a single-pass encode. Files
+ * of the stitched state or the side tracks that are not in `files` (stored by an earlier run of a
+ * resumed encode) are fetched with `readFile`; every file the playlists reference must resolve.
+ */
+export async function finishStitchedHls(
+  state: HlsStitchState,
+  files: Record<string, Uint8Array>,
+  sideTracks: Pick<HlsSideTracks, 'audio' | 'subtitles' | 'loudness'>,
+  options: HlsOptions = {},
+  readFile: (name: string) => Promise<Uint8Array> = async (name) => {
+    throw new Error(`Stitched playlists reference ${name}, which no chunk produced`);
+  }
 ): Promise<HlsOutput> {
-  const ff = await getFFmpeg(false);
-  if (onProgress) ff.on('progress', ({ progress }) => onProgress(Math.min(0.99, progress)));
+  const plan = planEncode(options);
+  const encoder = new TextEncoder();
+  const renditions: HlsRendition[] = [];
+
+  for (const [i, rung] of plan.ladder.entries()) {
+    const variant = state.variants[i];
+    if (!variant) throw new Error(`No stitched segments for ${rung.label}`);
+    // I-frame playlists are built from the segment bytes
+    for (const name of [variant.initName, ...variant.segments.map((segment) => segment.name)]) {
+      if (!files[name]) files[name] = await readFile(name);
+    }
 
-  const inputName = 'input';
-  const inputExt = inferExt(media.type) || 'mp4';
-  const inputFile = `${inputName}.${inputExt}`;
+    const { playlistName } = variantNames(rung);
+    const targetDuration = Math.max(1, ...variant.segments.map((segment) => Math.ceil(segment.duration)));
+    files[playlistName] = encoder.encode(
+      [
+        '#EXTM3U',
+        '#EXT-X-VERSION:7',
+        `#EXT-X-TARGETDURATION:${targetDuration}`,
+        '#EXT-X-MEDIA-SEQUENCE:0',
+        '#EXT-X-PLAYLIST-TYPE:VOD',
+        '#EXT-X-INDEPENDENT-SEGMENTS',
+        `#EXT-X-MAP:URI="${variant.initName}"`,
+        ...variant.segments.flatMap((segment) => [`#EXTINF:${segment.duration.toFixed(6)},`, segment.name]),
+        '#EXT-X-ENDLIST',
+        '',
+      ].join('\n')
+    );
+    renditions.push({ ...videoRendition(rung, plan.probe, sideTracks.audio.length > 0), sizeBytes: variant.sizeBytes });
+  }
 
-  // Write input to FS
-  const data = await fetchFile(media);
-  await ff.writeFile(inputFile, data);
+  const output = await finishHlsOutput(renditions, files, {
+    audio: sideTracks.audio,
+    subtitles: sideTracks.subtitles,
+    encryption: plan.encryption,
+    segmentsEncrypted: true,
+    readFile,
+  });
+  return { ...output, loudness: sideTracks.loudness };
+}
+
+/**
+ * Transcodes a media Blob to MPEG-DASH (one video representation per ladder rung plus a shared
+ * AAC representation) and returns manifest.mpd with its fMP4 segments
+ */
+export async function transcodeToDash(
+  ff: TranscoderSession,
+  media: Blob,
+  onProgress?: (ratio: number) => void,
+  options: HlsOptions = {}
+): Promise<DashOutput> {
+  if (options.encryption?.method === 'aes-128') {
+    throw new Error('AES-128 encrypts whole segments, which DASH cannot play; use SAMPLE-AES (CENC) for DASH');
+  }
+  const inputFile = await mountInput(ff, media);
+  const { files, manifestName, representations, loudness } = await encodeDash(ff, inputFile, onProgress, planEncode(options), false);
+  await ff.unmountInput(inputFile);
+  return { files, manifestName, representations, loudness };
+}
+
+/**
+ * Single CMAF encode: the DASH muxer writes the fMP4 segments once and, alongside manifest.mpd,
+ * one HLS media playlist per representation. The master playlist is then written by
+ * buildMasterPlaylist so both manifests live in the same output folder.
+ */
+async function transcodeToCmaf(
+  ff: TranscoderSession,
+  media: Blob,
+  onProgress: ((ratio: number) => void) | undefined,
+  plan: EncodePlan
+): Promise<HlsOutput> {
+  const { ladder, encryption } = plan;
+  if (encryption?.method === 'aes-128') {
+    throw new Error('AES-128 encrypts whole segments, which DASH cannot play; use SAMPLE-AES for CMAF');
+  }
+  const inputFile = await mountInput(ff, media);
+  const { files, manifestName, representations, audioBitrate, loudness } = await encodeDash(ff, inputFile, onProgress, plan, true);
+  const subtitles = await packageSubtitles(ff, inputFile, plan);
+  await ff.unmountInput(inputFile);
+  Object.assign(files, subtitles.files);
+
+  // The DASH muxer names HLS media playlists after the output stream index; audio follows video
+  const audioPlaylist = `media_${ladder.length}.m3u8`;
+  const audio: AudioGroup[] = files[audioPlaylist]
+    ? [{ groupId: 'aac', name: 'Main', playlistName: audioPlaylist, isDefault: true }]
+    : [];
+
+  const renditions: HlsRendition[] = representations.map((r, i) => ({
+    label: r.label,
+    width: r.width,
+    height: r.height,
+    bandwidth: (ladder[i].maxBitrate + audioBitrate) * 1000,
+    averageBandwidth: r.bandwidth,
+    codecs: r.codecs,
+    playlistName: `media_${i}.m3u8`,
+    sizeBytes: r.sizeBytes,
+  }));
+
+  await measureRenditions(renditions, audio, files, async (name) => {
+    throw new Error(`CMAF playlists reference ${name}, which the encode did not produce`);
+  });
+  addIframePlaylists(renditions, files);
 
-  const variantName = 'v720p.m3u8';
-  const initName = 'v720p_init.mp4';
-  const segPattern = 'v720p_%03d.m4s';
   const masterName = 'master.m3u8';
+  files[masterName] = new TextEncoder().encode(
+    buildMasterPlaylist(renditions, { audio, subtitles: subtitles.groups })
+  );
+
+  if (encryption) {
+    const mediaPlaylists = [...renditions.map((r) => r.playlistName), ...audio.map((a) => a.playlistName)];
+    for (const playlistName of mediaPlaylists) await encryptMediaPlaylist(playlistName, files, encryption);
+  }
+
+  return {
+    files,
+    masterName,
+    renditions,
+    dashManifestName: manifestName,
+    audioOnly: false,
+    audioTracks: audio.map(toAudioTrack),
+    subtitleTracks: subtitles.groups.map(toSubtitleTrack),
+    loudness,
+  };
+}
+
+async function encodeDash(
+  ff: TranscoderSession,
+  inputFile: string,
+  onProgress: ((ratio: number) => void) | undefined,
+  plan: EncodePlan,
+  hlsPlaylist: boolean
+) {
+  const { segmentDuration, probe } = plan;
+  const audioOnly = !!probe && !probe.hasVideo;
+  const ladder = audioOnly ? [] : plan.ladder;
 
-  const width = 1280;
-  const height = 720;
-  const vBitrate = 2000; // kbps approximate
-  const aBitrate = 128; // kbps
+  const outDir = 'dash';
+  const manifestName = 'manifest.mpd';
+  // The directory survives in the shared FS if a previous run was aborted
+  await ff.createDir(outDir).catch(() => undefined);
 
-  // Build HLS fMP4 single-variant
+  const aBitrate = audioOnly
+    ? plan.audioLadder[0].bitrate
+    : Math.max(...ladder.map((r) => r.audioBitrate ?? DEFAULT_AUDIO_BITRATE));
+  const chain = plan.videoFilters?.chain.length ? `${plan.videoFilters.chain.join(',')},` : '';
+  const split = `[0:v]${chain}split=${ladder.length}${ladder.map((_, i) => `[s${i}]`).join('')}`;
+  const scales = ladder.map((rung, i) => `[s${i}]${scaleFilter(rung)}[v${i}]`);
+
+  const videoArgs = ladder.flatMap((rung, i) => [
+    '-map', `[v${i}]`,
+    `-b:v:${i}`, `${rung.videoBitrate}k`,
+    `-maxrate:v:${i}`, `${rung.maxBitrate}k`,
+    `-bufsize:v:${i}`, `${rung.maxBitrate * 2}k`,
+    `-level:v:${i}`, avcLevel(rung.height).name,
+  ]);
+
+  // Single pass: every representation shares the decoder and the GOP structure
+  const adaptationSets = [
+    ...(audioOnly ? [] : ['streams=v']),
+    ...(probe && !probe.hasAudio ? [] : ['streams=a']),
+  ].map((streams, id) => `id=${id},${streams}`);
+
+  const loudness = loudnormLog();
   await ff.exec([
+    ...(audioOnly ? [] : videoFilterInputArgs(plan.videoFilters)),
     '-i', inputFile,
-    '-vf', `scale=w=${width}:h=-2:force_original_aspect_ratio=decrease`,
+    ...(audioOnly ? ['-vn'] : ['-filter_complex', [split, ...scales].join(';')]),
+    ...videoArgs,
+    ...(audioOnly ? [] : videoFilterOutputArgs(plan.videoFilters)),
+    ...audioMap(probe),
+    ...(probe && !probe.hasAudio ? [] : loudnessArgs(plan, 0)),
     '-c:v', 'libx264',
     '-preset', 'veryfast',
+    '-profile:v', 'high',
     '-crf', '23',
     '-c:a', 'aac',
     '-b:a', `${aBitrate}k`,
     '-ac', '2',
     '-ar', '48000',
-    '-keyint_min', '48',
-    '-g', '48',
+    '-keyint_min', String(GOP_SIZE),
+    '-g', String(GOP_SIZE),
     '-sc_threshold', '0',
-    '-hls_time', '4',
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+    '-f', 'dash',
+    '-seg_duration', String(segmentDuration),
+    '-use_template', '1',
+    '-use_timeline', '1',
+    '-init_seg_name', 'init-$RepresentationID$.m4s',
+    '-media_seg_name', 'chunk-$RepresentationID$-$Number%05d$.m4s',
+    '-adaptation_sets', adaptationSets.join(' '),
+    ...(hlsPlaylist ? ['-hls_playlist', '1'] : []),
+    ...(plan.encryption?.method === 'sample-aes' ? ['-format_options', sampleEncryptionOptions(plan.encryption)] : []),
+    `${outDir}/${manifestName}`,
+  ], { onProgress: (progress) => onProgress?.(Math.min(0.99, progress)), onLog: loudness.onLog });
+
+  // Collect outputs
+  const files: Record<string, Uint8Array> = {};
+  for (const node of await ff.listDir(outDir)) {
+    if (node.isDir) continue;
+    const path = `${outDir}/${node.name}`;
+    files[node.name] = (await ff.readFile(path)) as Uint8Array;
+    await ff.deleteFile(path);
+  }
+  await ff.deleteDir(outDir);
+  if (!files[manifestName]) throw new Error('DASH packaging did not produce a manifest');
+  if (plan.encryption?.method === 'sample-aes') protectDashManifest(manifestName, files, plan.encryption);
+
+  const sizeOf = (names: string[]) =>
+    names.reduce((a, name) => a + files[name].byteLength, 0);
+
+  if (audioOnly) {
+    const representations: DashRepresentation[] = [
+      {
+        label: `${aBitrate}k`,
+        width: null,
+        height: null,
+        bandwidth: aBitrate * 1000,
+        codecs: AAC_LC_CODEC,
+        sizeBytes: sizeOf(Object.keys(files).filter((name) => name.endsWith('.m4s'))),
+      },
+    ];
+    onProgress?.(1);
+    return { files, manifestName, representations, audioBitrate: aBitrate, loudness: loudness.stats() ?? undefined };
+  }
+
+  const representations: DashRepresentation[] = ladder.map((rung, i) => ({
+    label: rung.label,
+    width: rung.width,
+    height: rung.height,
+    bandwidth: (rung.videoBitrate + aBitrate) * 1000,
+    codecs: videoCodecs(rung, probe),
+    sizeBytes: sizeOf(
+      Object.keys(files).filter((name) => name === `init-${i}.m4s` || name.startsWith(`chunk-${i}-`))
+    ),
+  }));
+
+  onProgress?.(1);
+
+  return { files, manifestName, representations, audioBitrate: aBitrate, loudness: loudness.stats() ?? undefined };
+}
+
+/**
+ * Upper bound of the packaged output size in bytes, from the fitted ladder's peak bitrates and the
+ * probed duration. Outputs are written to the in-memory FS, so this has to fit the wasm heap.
+ */
+export function estimateOutputBytes(options: HlsOptions) {
+  const plan = planEncode(options);
+  const duration = plan.probe?.durationSec ?? 0;
+  const kbps =
+    plan.probe && !plan.probe.hasVideo
+      ? plan.audioLadder.reduce((a, rung) => a + rung.bitrate, 0)
+      : plan.ladder.reduce((a, rung) => a + rung.maxBitrate + (rung.audioBitrate ?? DEFAULT_AUDIO_BITRATE), 0);
+  return Math.ceil((duration * kbps * 1000) / 8);
+}
+
+function planEncode(options: HlsOptions): EncodePlan {
+  let ladder = [...(options.ladder ?? DEFAULT_LADDER)].sort((a, b) => b.height - a.height);
+  if (ladder.length === 0) throw new Error('ABR ladder must contain at least one rung');
+
+  // Never upscale: drop rungs larger than the source frame (as filtered: cropped, rotated), keeping
+  // at least the smallest one. Rungs scale to fit their box, so a wide frame fits by its width.
+  const source = options.videoFilters ?? options.probe;
+  if (source?.height) {
+    const fitting = ladder.filter((r) => r.height <= source.height || (!!source.width && r.width <= source.width));
+    ladder = fitting.length > 0 ? fitting : ladder.slice(-1);
+  }
+
+  const audioLadder = [...(options.audioLadder ?? DEFAULT_AUDIO_LADDER)].sort((a, b) => b.bitrate - a.bitrate);
+  if (audioLadder.length === 0) throw new Error('Audio ladder must contain at least one rung');
+
+  return {
+    ladder,
+    audioLadder,
+    segmentDuration: options.segmentDuration ?? 4,
+    probe: options.probe,
+    captions: options.captions ?? [],
+    embeddedSubtitles: options.embeddedSubtitles ?? true,
+    encryption: options.encryption,
+    loudness: options.loudness,
+    videoFilters: options.videoFilters,
+  };
+}
+
+// Without a probe the first audio stream is mapped optionally so silent sources still encode
+function audioMap(probe?: MediaProbe) {
+  if (!probe) return ['-map', '0:a:0?'];
+  return probe.hasAudio ? ['-map', '0:a:0'] : [];
+}
+
+// Sample encryption happens in the fMP4 muxer, AES-128 is applied to the finished segments
+function segmentOptions(plan: EncodePlan) {
+  return plan.encryption?.method === 'sample-aes'
+    ? ['-hls_segment_options', sampleEncryptionOptions(plan.encryption)]
+    : [];
+}
+
+function hlsFmp4Args(plan: EncodePlan, initName: string, segPattern: string) {
+  return [
+    '-hls_time', String(plan.segmentDuration),
     '-hls_playlist_type', 'vod',
     '-hls_segment_type', 'fmp4',
     '-hls_fmp4_init_filename', initName,
     '-hls_flags', 'independent_segments',
+    ...segmentOptions(plan),
     '-hls_segment_filename', segPattern,
-    variantName,
-  ]);
+  ];
+}
 
-  // Read variant playlist and parse referenced files
-  const variantU8 = (await ff.readFile(variantName)) as Uint8Array;
-  const variantText = new TextDecoder().decode(variantU8);
-  const referenced = parseHlsFiles(variantText);
-  referenced.add(variantName);
-  referenced.add(initName);
-
-  // Create a simple master playlist referencing single variant
-  const master = buildMasterPlaylist({
-    variant: variantName,
-    width,
-    height,
-    bandwidth: (vBitrate + aBitrate) * 1000,
-  });
-  const masterUint8 = new TextEncoder().encode(master);
-  await ff.writeFile(masterName, masterUint8);
-  referenced.add(masterName);
+// Fixed GOP and keyframes forced on segment boundaries keep every rung switchable per segment
+function videoRungArgs(rung: LadderRung, { segmentDuration, videoFilters }: EncodePlan) {
+  return [
+    '-vf', [...(videoFilters?.chain ?? []), scaleFilter(rung)].join(','),
+    ...videoFilterOutputArgs(videoFilters),
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-profile:v', 'high',
+    '-level:v', avcLevel(rung.height).name,
+    '-crf', '23',
+    '-maxrate', `${rung.maxBitrate}k`,
+    '-bufsize', `${rung.maxBitrate * 2}k`,
+    '-keyint_min', String(GOP_SIZE),
+    '-g', String(GOP_SIZE),
+    '-sc_threshold', '0',
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+  ];
+}
 
-  // Collect outputs
-  const files: Record<string, Uint8Array> = {};
-  for (const f of referenced) {
-    const buf = (await ff.readFile(f)) as Uint8Array;
-    files[f] = buf;
-  }
+function variantNames(rung: LadderRung) {
+  return {
+    playlistName: `v${rung.label}.m3u8`,
+    initName: `v${rung.label}_init.mp4`,
+    segPattern: `v${rung.label}_%03d.m4s`,
+  };
+}
 
-  onProgress?.(1);
+// Ladder figures until measureRenditions replaces them with those of the encoded segments. With
+// alternate audio the variant BANDWIDTH still has to cover the audio rendition.
+function videoRendition(rung: LadderRung, probe: MediaProbe | undefined, separateAudio: boolean): HlsRendition {
+  const aBitrate = separateAudio ? DEFAULT_AUDIO_BITRATE : rung.audioBitrate ?? DEFAULT_AUDIO_BITRATE;
+  return {
+    label: rung.label,
+    width: rung.width,
+    height: rung.height,
+    bandwidth: (rung.maxBitrate + aBitrate) * 1000,
+    averageBandwidth: (rung.videoBitrate + aBitrate) * 1000,
+    codecs: videoCodecs(rung, probe),
+    playlistName: variantNames(rung).playlistName,
+    sizeBytes: 0,
+  };
+}
+
+function audioInitName(stream: ProbeStream) {
+  return `audio_${stream.typeIndex}_init.mp4`;
+}
+
+// One source audio stream as an alternate AAC rendition (EXT-X-MEDIA)
+async function encodeAudioRendition(
+  ff: TranscoderSession,
+  inputFile: string,
+  plan: EncodePlan,
+  stream: ProbeStream,
+  n: number,
+  isDefault: boolean,
+  onProgress: (ratio: number) => void,
+  onLog?: (message: string) => void
+): Promise<AudioGroup> {
+  const playlistName = `audio_${stream.typeIndex}.m3u8`;
+
+  await ff.exec([
+    '-i', inputFile,
+    '-map', `0:a:${stream.typeIndex}`,
+    '-vn',
+    ...loudnessArgs(plan, stream.typeIndex),
+    '-c:a', 'aac',
+    '-b:a', `${DEFAULT_AUDIO_BITRATE}k`,
+    '-ac', '2',
+    '-ar', '48000',
+    ...hlsFmp4Args(plan, audioInitName(stream), `audio_${stream.typeIndex}_%03d.m4s`),
+    playlistName,
+  ], { onProgress, onLog });
 
   return {
-    files,
-    masterName,
-    variantName,
-    resolution: { width, height, label: '720p' },
-    approxBitrate: (vBitrate + aBitrate) * 1000,
+    groupId: 'aac',
+    name: stream.title || (stream.language ? stream.language.toUpperCase() : `Track ${n + 1}`),
+    playlistName,
+    isDefault,
+    language: stream.language && toBcp47(stream.language),
+    channels: 2,
   };
 }
 
-function buildMasterPlaylist({ variant, width, height, bandwidth }: { variant: string; width: number; height: number; bandwidth: number }) {
-  const avg = Math.floor(bandwidth * 0.85);
-  return [
-    '#EXTM3U',
-    '#EXT-X-VERSION:7',
-    `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},AVERAGE-BANDWIDTH=${avg},RESOLUTION=${width}x${height},CODECS="avc1.64001f,mp4a.40.2"`,
-    variant,
-    ''
-  ].join('\n');
+// Second loudnorm pass for a source audio stream, when normalization was requested
+function loudnessArgs(plan: EncodePlan, typeIndex: number) {
+  const filter = loudnormFilter(plan.loudness, typeIndex);
+  return filter ? ['-af', filter] : [];
+}
+
+function mountInput(ff: TranscoderSession, media: Blob) {
+  return ff.mountInput(media, `input.${inferExt(media.type) || 'mp4'}`);
+}
+
+function scaleFilter(rung: LadderRung) {
+  return `scale=w=${rung.width}:h=${rung.height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+}
+
+function buildMasterPlaylist(
+  renditions: HlsRendition[],
+  { audio = [], subtitles = [] }: { audio?: AudioGroup[]; subtitles?: SubtitleGroup[] } = {}
+) {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:7', '#EXT-X-INDEPENDENT-SEGMENTS'];
+  for (const a of audio) {
+    lines.push(
+      `#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="${a.groupId}",NAME="${quoteSafe(a.name)}"` +
+        (a.language ? `,LANGUAGE="${a.language}"` : '') +
+        `,DEFAULT=${a.isDefault ? 'YES' : 'NO'},AUTOSELECT=YES` +
+        (a.channels ? `,CHANNELS="${a.channels}"` : '') +
+        `,URI="${a.playlistName}"`
+    );
+  }
+  for (const sub of subtitles) {
+    lines.push(
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="${sub.groupId}",NAME="${quoteSafe(sub.name)}"` +
+        (sub.language ? `,LANGUAGE="${sub.language}"` : '') +
+        `,DEFAULT=${sub.isDefault ? 'YES' : 'NO'},AUTOSELECT=YES,FORCED=${sub.forced ? 'YES' : 'NO'}` +
+        `,URI="${sub.playlistName}"`
+    );
+  }
+  const audioAttr = audio.length > 0 ? `,AUDIO="${audio[0].groupId}"` : '';
+  const subtitlesAttr = subtitles.length > 0 ? `,SUBTITLES="${subtitles[0].groupId}"` : '';
+  for (const r of renditions) {
+    const resolution = r.width && r.height ? `,RESOLUTION=${r.width}x${r.height}` : '';
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${r.bandwidth},AVERAGE-BANDWIDTH=${r.averageBandwidth}${resolution},CODECS="${r.codecs}"${audioAttr}${subtitlesAttr}`,
+      r.playlistName
+    );
+  }
+  for (const r of renditions) {
+    if (!r.iframe) continue;
+    const resolution = r.width && r.height ? `,RESOLUTION=${r.width}x${r.height}` : '';
+    // I-frame playlists carry no audio, advertise the video codec only
+    lines.push(
+      `#EXT-X-I-FRAME-STREAM-INF:BANDWIDTH=${r.iframe.bandwidth},AVERAGE-BANDWIDTH=${r.iframe.averageBandwidth}${resolution},CODECS="${r.codecs.split(',')[0]}",URI="${r.iframe.playlistName}"`
+    );
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Replaces the ladder's figures of every rendition with what the encode produced. RESOLUTION is
+ * read from the init segment, since a source of another aspect ratio is scaled to fit inside the
+ * rung's box rather than fill it. BANDWIDTH and AVERAGE-BANDWIDTH are the peak and average
+ * segment bitrates (the encode is CRF, the rung's bitrate only caps it), plus those of the default
+ * audio rendition when audio is separate.
+ */
+async function measureRenditions(
+  renditions: HlsRendition[],
+  audio: AudioGroup[],
+  files: Record<string, Uint8Array>,
+  readFile: (name: string) => Promise<Uint8Array>
+) {
+  const decoder = new TextDecoder();
+  const load = async (name: string) => (files[name] ??= await readFile(name));
+
+  const bitrateOf = async (playlistName: string) => {
+    const segments = parseMediaSegments(decoder.decode(await load(playlistName)));
+    const sized = [];
+    for (const segment of segments) {
+      if (segment.duration > 0) sized.push({ duration: segment.duration, bytes: (await load(segment.uri)).byteLength });
+    }
+    if (sized.length === 0) return null;
+    const totalBytes = sized.reduce((a, segment) => a + segment.bytes, 0);
+    const totalDuration = sized.reduce((a, segment) => a + segment.duration, 0);
+    const average = Math.ceil((totalBytes * 8) / totalDuration);
+    // A short trailing segment is mostly its keyframe and would overstate the peak
+    const full = sized.filter((segment) => segment.duration >= 1);
+    return { average, peak: Math.max(average, ...full.map((segment) => Math.ceil((segment.bytes * 8) / segment.duration))) };
+  };
+
+  const mainAudio = audio.find((a) => a.isDefault) ?? audio[0];
+  const audioBitrate = mainAudio ? await bitrateOf(mainAudio.playlistName) : null;
+  for (const r of renditions) {
+    const bitrate = await bitrateOf(r.playlistName);
+    if (bitrate) {
+      r.bandwidth = bitrate.peak + (audioBitrate?.peak ?? 0);
+      r.averageBandwidth = bitrate.average + (audioBitrate?.average ?? 0);
+    }
+    if (r.width === null) continue;
+    const initName = decoder.decode(files[r.playlistName]).match(/#EXT-X-MAP:URI="([^"]+)"/)?.[1];
+    const size = initName ? videoDimensions(await load(initName)) : null;
+    if (size) {
+      r.width = size.width;
+      r.height = size.height;
+    }
+  }
+}
+
+/**
+ * Adds a byte-range I-frame playlist for every video rendition whose media playlist and segments
+ * are in `files`
+ */
+function addIframePlaylists(renditions: HlsRendition[], files: Record<string, Uint8Array>) {
+  const decoder = new TextDecoder();
+  for (const r of renditions) {
+    if (r.width === null || !files[r.playlistName]) continue;
+    const iframe = buildIframePlaylist(decoder.decode(files[r.playlistName]), files);
+    if (!iframe) continue;
+    const playlistName = r.playlistName.replace(/\.m3u8$/, '_iframes.m3u8');
+    files[playlistName] = new TextEncoder().encode(iframe.playlist);
+    r.iframe = { playlistName, bandwidth: iframe.bandwidth, averageBandwidth: iframe.averageBandwidth };
+  }
+}
+
+/**
+ * Walks the playlists reachable from the master and reads every referenced file not already in
+ * `files` through `readFile`
+ */
+async function collectPlaylistFiles(
+  masterName: string,
+  files: Record<string, Uint8Array>,
+  readFile: (name: string) => Promise<Uint8Array>
+) {
+  const pending = [masterName];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (visited.has(name)) continue;
+    visited.add(name);
+    if (!files[name]) files[name] = await readFile(name);
+    if (name.endsWith('.m3u8')) pending.push(...parseHlsFiles(new TextDecoder().decode(files[name])));
+  }
+}
+
+// Quoted-string attribute values may not contain double quotes or line breaks
+function quoteSafe(value: string) {
+  return value.replace(/"/g, "'").replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Converts sidecar captions and embedded text subtitle streams to WebVTT and splits them into
+ * HLS subtitle renditions aligned with the media segments
+ */
+async function packageSubtitles(ff: TranscoderSession, inputFile: string, plan: EncodePlan): Promise<PackagedSubtitles> {
+  const { probe, segmentDuration, captions, embeddedSubtitles } = plan;
+  const groups: SubtitleGroup[] = [];
+  const files: Record<string, Uint8Array> = {};
+  const encoder = new TextEncoder();
+
+  const addTrack = (vtt: string, name: string, language: string | undefined, forced: boolean) => {
+    const n = groups.length;
+    const prefix = `subs_${n}`;
+    const segmented = segmentWebVtt(parseWebVtt(vtt), {
+      segmentDuration,
+      totalDuration: probe?.durationSec ?? 0,
+      prefix,
+    });
+    const playlistName = `${prefix}.m3u8`;
+    files[playlistName] = encoder.encode(segmented.playlist);
+    for (const [segName, text] of Object.entries(segmented.segments)) files[segName] = encoder.encode(text);
+    groups.push({ groupId: 'subs', name, playlistName, isDefault: false, language, forced });
+  };
+
+  const toVtt = async (args: string[]) => {
+    const out = 'subs_convert.vtt';
+    await ff.exec([...args, '-c:s', 'webvtt', '-y', out]);
+    const text = new TextDecoder().decode((await ff.readFile(out)) as Uint8Array);
+    await ff.deleteFile(out);
+    return text;
+  };
+
+  if (embeddedSubtitles && probe) {
+    const streams = probe.streams.filter((st) => st.type === 'subtitle' && TEXT_SUBTITLE_CODECS.has(st.codec));
+    for (const stream of streams) {
+      const vtt = await toVtt(['-i', inputFile, '-map', `0:s:${stream.typeIndex}`]);
+      const language = stream.language && toBcp47(stream.language);
+      const name = stream.title || (language ? language.toUpperCase() : `Subtitles ${groups.length + 1}`);
+      addTrack(vtt, name, language, /forced/i.test(stream.title ?? ''));
+    }
+  }
+
+  for (const [i, caption] of captions.entries()) {
+    const captionFile = `caption_${i}.${caption.format}`;
+    await ff.writeFile(captionFile, await fetchFile(caption.data));
+    let vtt = await toVtt(['-i', captionFile]);
+    if (caption.ranges?.length || caption.offsetSec) {
+      vtt = serializeWebVtt(clipCues(parseWebVtt(vtt), caption.ranges ?? null, caption.offsetSec));
+    }
+    await ff.deleteFile(captionFile);
+    const language = caption.language && toBcp47(caption.language);
+    const name = caption.label || (language ? language.toUpperCase() : `Captions ${groups.length + 1}`);
+    addTrack(vtt, name, language, false);
+  }
+
+  return { groups, files };
+}
+
+function toAudioTrack(a: AudioGroup): HlsAudioTrack {
+  return { name: a.name, language: a.language, playlistName: a.playlistName, isDefault: a.isDefault };
+}
+
+function toSubtitleTrack(sub: SubtitleGroup): HlsSubtitleTrack {
+  return { name: sub.name, language: sub.language, playlistName: sub.playlistName };
+}
+
+// ISO 639-2 codes reported by ffmpeg mapped to the BCP 47 tags HLS players expect
+const BCP47_BY_ISO639_2: Record<string, string> = {
+  eng: 'en', fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', spa: 'es', ita: 'it', por: 'pt',
+  dut: 'nl', nld: 'nl', rus: 'ru', jpn: 'ja', chi: 'zh', zho: 'zh', kor: 'ko', ara: 'ar',
+  hin: 'hi', swe: 'sv', nor: 'no', dan: 'da', fin: 'fi', pol: 'pl', tur: 'tr', gre: 'el', ell: 'el',
+};
+
+function toBcp47(language: string) {
+  return BCP47_BY_ISO639_2[language.toLowerCase()] ?? language;
+}
+
+function videoCodecs(rung: LadderRung, probe?: MediaProbe) {
+  const video = `avc1.6400${avcLevel(rung.height).hex}`;
+  return probe && !probe.hasAudio ? video : `${video},${AAC_LC_CODEC}`;
+}
+
+// H.264 High profile level for a rung height, as ffmpeg level name and RFC 6381 hex
+function avcLevel(height: number) {
+  if (height <= 480) return { name: '3.0', hex: '1e' };
+  if (height <= 720) return { name: '3.1', hex: '1f' };
+  if (height <= 1080) return { name: '4.0', hex: '28' };
+  return { name: '5.1', hex: '33' };
+}
+
+// EXTINF durations paired with the segment URI that follows each
+function parseMediaSegments(playlist: string) {
+  const segments: { duration: number; uri: string }[] = [];
+  let duration: number | null = null;
+  for (const line of playlist.split(/\r?\n/)) {
+    const extinf = line.match(/^#EXTINF:([\d.]+)/);
+    if (extinf) duration = Number(extinf[1]);
+    else if (line && !line.startsWith('#') && duration !== null) {
+      segments.push({ duration, uri: line.trim() });
+      duration = null;
+    }
+  }
+  return segments;
 }
 
 function parseHlsFiles(playlist: string) {
@@ -128,8 +1283,9 @@ function parseHlsFiles(playlist: string) {
   const lines = playlist.split(/\r?\n/);
   for (const line of lines) {
     if (!line || line.startsWith('#')) {
-      // capture init map
-      if (line.startsWith('#EXT-X-MAP')) {
+      // capture init maps, alternate renditions and I-frame playlists; byte-range entries name
+      // the segment on the following line like any other entry. Key URIs are served separately.
+      if (/^#EXT-X-(MAP|MEDIA|I-FRAME-STREAM-INF):/.test(line)) {
         const m = line.match(/URI="([^"]+)"/);
         if (m?.[1]) files.add(m[1]);
       }
@@ -140,12 +1296,17 @@ function parseHlsFiles(playlist: string) {
   return files;
 }
 
-function inferExt(mime?: string | null) {
+export function inferExt(mime?: string | null) {
   if (!mime) return null;
   if (mime.includes('mp4')) return 'mp4';
   if (mime.includes('webm')) return 'webm';
   if (mime.includes('quicktime')) return 'mov';
   if (mime.includes('matroska')) return 'mkv';
+  if (mime === 'audio/mpeg' || mime === 'audio/mp3') return 'mp3';
+  if (mime.includes('wav')) return 'wav';
+  if (mime.includes('flac')) return 'flac';
+  if (mime.includes('aac')) return 'aac';
+  if (mime.includes('ogg')) return 'ogg';
   if (mime.includes('mpeg')) return 'mpg';
   return null;
 }
@@ -0,0 +1,70 @@
+import videojs from 'video.js';
+import type Player from 'video.js/dist/types/player';
+import 'videojs-contrib-eme';
+
+export type KeyRequestOptions = {
+  uri: string;
+  headers?: Record<string, string>;
+};
+
+type VhsXhr = {
+  onRequest?: (hook: (options: KeyRequestOptions) => KeyRequestOptions) => void;
+  offRequest?: (hook: (options: KeyRequestOptions) => KeyRequestOptions) => void;
+};
+
+export function isKeyRequest(uri: string) {
+  return uri.includes('/functions/v1/content-key');
+}
+
+/**
+ * Registers a global VHS request hook that rewrites EXT-X-KEY requests to the content-key
+ * function (auth header or share token). Returns a function removing the hook.
+ */
+export function onKeyRequest(rewrite: (options: KeyRequestOptions) => KeyRequestOptions) {
+  // VHS ships without typings on the videojs export
+  const xhr = (videojs as unknown as { Vhs?: { xhr?: VhsXhr } }).Vhs?.xhr;
+  if (!xhr?.onRequest) return () => undefined;
+  const hook = (options: KeyRequestOptions) => (isKeyRequest(options.uri) ? rewrite(options) : options);
+  xhr.onRequest(hook);
+  return () => xhr.offRequest?.(hook);
+}
+
+export const CLEARKEY_KEY_SYSTEM = 'org.w3.clearkey';
+
+type LicenseCallback = (error: Error | null, license?: ArrayBuffer) => void;
+
+export function clearKeyLicenseUrl(jobId: string, shareToken?: string | null) {
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/clearkey-license?jobId=${encodeURIComponent(jobId)}`;
+  return shareToken ? `${url}&token=${encodeURIComponent(shareToken)}` : url;
+}
+
+/**
+ * keySystems source option for videojs-contrib-eme. Headers are resolved per license request so
+ * a refreshed session token is picked up.
+ */
+export function clearKeySystems(licenseUrl: string, getHeaders?: () => Promise<Record<string, string>>) {
+  return {
+    [CLEARKEY_KEY_SYSTEM]: {
+      getLicense: (_emeOptions: unknown, keyMessage: Uint8Array, callback: LicenseCallback) => {
+        (getHeaders ? getHeaders() : Promise.resolve({}))
+          .then((headers) =>
+            fetch(licenseUrl, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', ...headers },
+              body: keyMessage,
+            })
+          )
+          .then((res) => {
+            if (!res.ok) throw new Error(`License request failed (${res.status})`);
+            return res.arrayBuffer();
+          })
+          .then((license) => callback(null, license), (error: Error) => callback(error));
+      },
+    },
+  };
+}
+
+/** Initializes the EME plugin; must run before a protected source is set */
+export function enableEme(player: Player) {
+  (player as unknown as { eme?: () => void }).eme?.();
+}
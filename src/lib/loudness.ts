@@ -0,0 +1,145 @@
+import { inferExt } from './hlsTranscoder';
+import type { TranscoderSession } from './transcoderSession';
+
+export type LoudnessTarget = {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  lra: number; // loudness range, LU
+};
+
+export type LoudnessMeasurement = {
+  integrated: number | null; // null when the audio is silent (-inf)
+  truePeak: number | null;
+  lra: number | null;
+  threshold: number | null;
+};
+
+// What loudnorm logs with print_format=json: the input it analysed and the output it produced
+export type LoudnessStats = {
+  input: LoudnessMeasurement;
+  output: LoudnessMeasurement;
+  targetOffset: number | null;
+  normalization: 'linear' | 'dynamic' | null;
+};
+
+// First pass results per source audio stream (-map 0:a:N), applied by the second pass
+export type LoudnessNormalization = {
+  target: LoudnessTarget;
+  measured: Record<number, LoudnessStats>;
+};
+
+/** Stored on the job: before/after values of the main audio track */
+export type LoudnessReport = {
+  target: LoudnessTarget;
+  before: LoudnessMeasurement;
+  after: LoudnessMeasurement | null;
+  normalization: 'linear' | 'dynamic' | null;
+};
+
+// EBU R128 broadcast defaults
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTarget = { integrated: -23, truePeak: -1, lra: 7 };
+
+/**
+ * First loudnorm pass: analyses the given audio streams (by index among audio streams) without
+ * encoding anything
+ */
+export async function measureLoudness(
+  ff: TranscoderSession,
+  media: Blob,
+  target: LoudnessTarget,
+  audioStreams: number[]
+): Promise<Record<number, LoudnessStats>> {
+  const inputFile = await ff.mountInput(media, `loudness.${inferExt(media.type) || 'mp4'}`);
+  const measured: Record<number, LoudnessStats> = {};
+  try {
+    for (const typeIndex of audioStreams) {
+      const log = loudnormLog();
+      await ff.exec(
+        ['-hide_banner', '-i', inputFile, '-map', `0:a:${typeIndex}`, '-af', `${loudnormArgs(target)}:print_format=json`, '-f', 'null', '-'],
+        { onLog: log.onLog }
+      );
+      const stats = log.stats();
+      if (!stats) throw new Error(`Loudness analysis of audio track ${typeIndex + 1} produced no measurement`);
+      measured[typeIndex] = stats;
+    }
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+  return measured;
+}
+
+/**
+ * Second pass filter for one source audio stream, or null when it was not measured or is silent.
+ * The measured values let loudnorm apply a single linear gain where the target allows it.
+ */
+export function loudnormFilter(normalization: LoudnessNormalization | undefined, typeIndex: number) {
+  const stats = normalization?.measured[typeIndex];
+  if (!normalization || !stats) return null;
+  const { integrated, truePeak, lra, threshold } = stats.input;
+  if (integrated === null || truePeak === null || lra === null || threshold === null) return null;
+  return [
+    loudnormArgs(normalization.target),
+    `measured_I=${integrated}`,
+    `measured_TP=${truePeak}`,
+    `measured_LRA=${lra}`,
+    `measured_thresh=${threshold}`,
+    `offset=${stats.targetOffset ?? 0}`,
+    'linear=true',
+    'print_format=json',
+  ].join(':');
+}
+
+/**
+ * Collects the JSON block loudnorm logs when its filter is torn down. Only the first block is
+ * kept, later encodes of the same stream repeat it.
+ */
+export function loudnormLog() {
+  let lines: string[] | null = null;
+  let stats: LoudnessStats | null = null;
+  const onLog = (message: string) => {
+    if (stats) return;
+    const line = message.trim();
+    if (line === '{') lines = [];
+    if (!lines) return;
+    lines.push(line);
+    if (line === '}') {
+      stats = parseLoudnormJson(lines.join('\n'));
+      lines = null;
+    }
+  };
+  return { onLog, stats: () => stats };
+}
+
+export function loudnessReport(target: LoudnessTarget, first: LoudnessStats, second: LoudnessStats | null): LoudnessReport {
+  return {
+    target,
+    before: first.input,
+    after: second?.output ?? null,
+    normalization: second?.normalization ?? null,
+  };
+}
+
+function loudnormArgs({ integrated, truePeak, lra }: LoudnessTarget) {
+  return `loudnorm=I=${integrated}:TP=${truePeak}:LRA=${lra}`;
+}
+
+function parseLoudnormJson(text: string): LoudnessStats | null {
+  let raw: Record<string, string>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!('input_i' in raw)) return null;
+  const num = (key: string) => {
+    const value = Number(raw[key]);
+    return Number.isFinite(value) ? value : null;
+  };
+  const normalization = raw.normalization_type;
+  return {
+    input: { integrated: num('input_i'), truePeak: num('input_tp'), lra: num('input_lra'), threshold: num('input_thresh') },
+    output: { integrated: num('output_i'), truePeak: num('output_tp'), lra: num('output_lra'), threshold: num('output_thresh') },
+    targetOffset: num('target_offset'),
+    normalization: normalization === 'linear' || normalization === 'dynamic' ? normalization : null,
+  };
+}
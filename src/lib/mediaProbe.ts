@@ -0,0 +1,236 @@
+import { inferExt } from './hlsTranscoder';
+import type { TranscoderSession } from './transcoderSession';
+
+export type ProbeStreamType = 'video' | 'audio' | 'subtitle' | 'data' | 'attachment';
+
+export type ProbeStream = {
+  index: number; // absolute index in the input (-map 0:N)
+  typeIndex: number; // index among streams of the same type (-map 0:a:N)
+  type: ProbeStreamType;
+  codec: string;
+  profile?: string;
+  language?: string;
+  title?: string;
+  isDefault: boolean;
+  bitrate?: number; // bits/s
+  // video
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  pixelFormat?: string;
+  colorTransfer?: string;
+  fieldOrder?: string;
+  rotation?: number;
+  attachedPic?: boolean; // cover art in audio files, not a playable video track
+  // audio
+  sampleRate?: number;
+  channels?: number;
+  channelLayout?: string;
+};
+
+export type MediaProbe = {
+  container: string | null;
+  durationSec: number | null;
+  bitrate: number | null; // bits/s
+  streams: ProbeStream[];
+  hasVideo: boolean;
+  hasAudio: boolean;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  width: number | null; // display size, rotation applied
+  height: number | null;
+  frameRate: number | null;
+  rotation: number;
+  audioChannels: number | null;
+  hdr: 'pq' | 'hlg' | null;
+  dolbyVision: boolean;
+};
+
+const CHANNELS_BY_LAYOUT: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  '2.1': 3,
+  '3.0': 3,
+  quad: 4,
+  '4.0': 4,
+  '5.0': 5,
+  '5.1': 6,
+  '6.1': 7,
+  '7.1': 8,
+};
+
+/**
+ * Probes a media Blob in the given transcoder session and returns its technical metadata
+ */
+export async function probeMedia(ff: TranscoderSession, media: Blob): Promise<MediaProbe> {
+  const inputFile = await ff.mountInput(media, `probe.${inferExt(media.type) || 'mp4'}`);
+  try {
+    return await probeFile(ff, inputFile);
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+}
+
+/**
+ * Presentation times (seconds) of the keyframes in the first video stream. Only keyframes are
+ * decoded, showinfo logs one line per frame it sees.
+ */
+export async function probeKeyframes(ff: TranscoderSession, media: Blob): Promise<number[]> {
+  const inputFile = await ff.mountInput(media, `keyframes.${inferExt(media.type) || 'mp4'}`);
+  const times: number[] = [];
+  try {
+    await ff.exec(
+      ['-hide_banner', '-skip_frame', 'nokey', '-i', inputFile, '-map', '0:v:0', '-vf', 'showinfo', '-an', '-f', 'null', '-'],
+      {
+        onLog: (message) => {
+          const m = message.match(/\bpts_time:\s*(-?[\d.]+)/);
+          if (m) times.push(Number(m[1]));
+        },
+      }
+    );
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+  return [...new Set(times)].filter((t) => Number.isFinite(t) && t >= 0).sort((a, b) => a - b);
+}
+
+/**
+ * Probes a file already present in the FFmpeg FS. ffmpeg.wasm ships without ffprobe, so this
+ * runs `ffmpeg -i` without an output and parses the input description it logs.
+ */
+export async function probeFile(ff: TranscoderSession, inputFile: string): Promise<MediaProbe> {
+  const lines: string[] = [];
+  // Exits non-zero ("At least one output file must be specified") once the input is described
+  await ff.exec(['-hide_banner', '-i', inputFile], { onLog: (message) => lines.push(message) });
+  const probe = parseProbeLog(lines.join('\n'));
+  if (probe.streams.length === 0) throw new Error('Unable to read media streams from source');
+  return probe;
+}
+
+export function parseProbeLog(log: string): MediaProbe {
+  let container: string | null = null;
+  let durationSec: number | null = null;
+  let bitrate: number | null = null;
+  const streams: ProbeStream[] = [];
+  const typeCounts: Record<ProbeStreamType, number> = { video: 0, audio: 0, subtitle: 0, data: 0, attachment: 0 };
+  let current: ProbeStream | null = null;
+  let dolbyVision = false;
+
+  for (const raw of log.split(/\r?\n/)) {
+    const line = raw.trim();
+    let m: RegExpMatchArray | null;
+
+    if ((m = line.match(/^Input #0, (.+?), from /))) {
+      container = m[1].split(',')[0];
+      continue;
+    }
+
+    if ((m = line.match(/^Duration: (?:(\d+):(\d+):(\d+(?:\.\d+)?)|N\/A)/))) {
+      if (m[1]) durationSec = Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+      const br = line.match(/bitrate: (\d+) kb\/s/);
+      if (br) bitrate = Number(br[1]) * 1000;
+      continue;
+    }
+
+    if ((m = line.match(/^Stream #0:(\d+)(?:\[[^\]]+\])?(?:\(([^)]+)\))?: (Video|Audio|Subtitle|Data|Attachment): (.*)$/))) {
+      const type = m[3].toLowerCase() as ProbeStreamType;
+      current = parseStream(Number(m[1]), typeCounts[type]++, type, m[4]);
+      if (m[2] && m[2] !== 'und') current.language = m[2];
+      streams.push(current);
+      continue;
+    }
+
+    if (!current) continue;
+
+    if ((m = line.match(/rotation of (-?[\d.]+) degrees/))) {
+      current.rotation = normalizeRotation(-Number(m[1]));
+    } else if ((m = line.match(/^rotate\s*: (-?\d+)/))) {
+      current.rotation = normalizeRotation(Number(m[1]));
+    } else if ((m = line.match(/^title\s*: (.+)$/))) {
+      current.title = m[1];
+    } else if ((m = line.match(/^language\s*: (\w+)/)) && m[1] !== 'und') {
+      current.language = m[1];
+    } else if (line.startsWith('DOVI configuration record')) {
+      dolbyVision = true;
+    }
+  }
+
+  const video = streams.find((s) => s.type === 'video' && !s.attachedPic);
+  const audio = streams.find((s) => s.type === 'audio');
+  const rotation = video?.rotation ?? 0;
+  const swapped = rotation === 90 || rotation === 270;
+  const transfer = video?.colorTransfer;
+
+  return {
+    container,
+    durationSec,
+    bitrate,
+    streams,
+    hasVideo: !!video,
+    hasAudio: !!audio,
+    videoCodec: video?.codec ?? null,
+    audioCodec: audio?.codec ?? null,
+    width: (swapped ? video?.height : video?.width) ?? null,
+    height: (swapped ? video?.width : video?.height) ?? null,
+    frameRate: video?.frameRate ?? null,
+    rotation,
+    audioChannels: audio?.channels ?? null,
+    hdr: transfer === 'smpte2084' ? 'pq' : transfer === 'arib-std-b67' ? 'hlg' : null,
+    dolbyVision,
+  };
+}
+
+function parseStream(index: number, typeIndex: number, type: ProbeStreamType, details: string): ProbeStream {
+  const stream: ProbeStream = {
+    index,
+    typeIndex,
+    type,
+    codec: details.match(/^(\w+)/)?.[1] ?? 'unknown',
+    isDefault: /\(default\)/.test(details),
+  };
+
+  const profile = details.match(/^\w+ \(([^)]+)\)/);
+  if (profile && !profile[1].includes(' / ')) stream.profile = profile[1];
+
+  const kbps = details.match(/(\d+) kb\/s/);
+  if (kbps) stream.bitrate = Number(kbps[1]) * 1000;
+
+  if (type === 'video') {
+    if (/\(attached pic\)/.test(details)) stream.attachedPic = true;
+    const size = details.match(/, (\d{2,5})x(\d{2,5})/);
+    if (size) {
+      stream.width = Number(size[1]);
+      stream.height = Number(size[2]);
+    }
+    const fps = details.match(/([\d.]+)(k?) fps/) ?? details.match(/([\d.]+)(k?) tbr/);
+    if (fps) stream.frameRate = Number(fps[1]) * (fps[2] ? 1000 : 1);
+
+    // e.g. "yuv420p10le(tv, bt2020nc/bt2020/smpte2084, progressive)"
+    const pix = details.match(/, ([a-z0-9_]+)(?:\(([^)]*)\))?, \d{2,5}x\d{2,5}/);
+    if (pix) {
+      stream.pixelFormat = pix[1];
+      for (const part of (pix[2] ?? '').split(',').map((p) => p.trim())) {
+        if (/(first|progressive)/.test(part)) stream.fieldOrder = part;
+        else if (part.includes('/')) stream.colorTransfer = part.split('/').pop();
+        else if (/^(bt|smpte|arib|iec)/.test(part)) stream.colorTransfer = part;
+      }
+    }
+  }
+
+  if (type === 'audio') {
+    const rate = details.match(/(\d+) Hz, ([^,]+)/);
+    if (rate) {
+      stream.sampleRate = Number(rate[1]);
+      stream.channelLayout = rate[2].trim();
+      const layout = stream.channelLayout.replace(/\(.*\)$/, '');
+      const explicit = stream.channelLayout.match(/^(\d+) channels/);
+      stream.channels = explicit ? Number(explicit[1]) : CHANNELS_BY_LAYOUT[layout];
+    }
+  }
+
+  return stream;
+}
+
+function normalizeRotation(degrees: number) {
+  return (((Math.round(degrees / 90) * 90) % 360) + 360) % 360;
+}
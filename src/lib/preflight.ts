@@ -0,0 +1,46 @@
+const GiB = 1024 ** 3;
+
+// WORKERFS reads the source lazily, but the browser still keeps the downloaded Blob around
+export const MAX_BROWSER_INPUT_BYTES = 8 * GiB;
+// ffmpeg.wasm is a 32-bit build; its heap holds the encoders and every output file
+const WASM_HEAP_OUTPUT_BYTES = 1 * GiB;
+
+export type PreflightResult = {
+  ok: boolean;
+  reason?: string; // why the input cannot be transcoded in the browser
+};
+
+/** Bytes of output the in-browser transcoder may produce on this device */
+export function outputBudgetBytes() {
+  // Chrome only, rounded down and capped at 8; assume a small device elsewhere
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const deviceBudget = deviceMemory ? (deviceMemory * GiB) / 4 : WASM_HEAP_OUTPUT_BYTES;
+  return Math.min(WASM_HEAP_OUTPUT_BYTES, deviceBudget);
+}
+
+/** Source size check, run before anything is downloaded */
+export function checkInputSize(sizeBytes: number | null): PreflightResult {
+  if (sizeBytes !== null && sizeBytes > MAX_BROWSER_INPUT_BYTES) {
+    return {
+      ok: false,
+      reason: `Source is ${formatGiB(sizeBytes)}, the browser transcoder accepts up to ${formatGiB(MAX_BROWSER_INPUT_BYTES)}`,
+    };
+  }
+  return { ok: true };
+}
+
+/** Output size check, run once the source has been probed */
+export function checkOutputSize(estimatedBytes: number): PreflightResult {
+  const budget = outputBudgetBytes();
+  if (estimatedBytes > budget) {
+    return {
+      ok: false,
+      reason: `Outputs would need about ${formatGiB(estimatedBytes)} of memory, this browser can hold ${formatGiB(budget)}`,
+    };
+  }
+  return { ok: true };
+}
+
+function formatGiB(bytes: number) {
+  return `${(bytes / GiB).toFixed(1)} GB`;
+}
@@ -0,0 +1,56 @@
+export type RemoteSourceInfo = {
+  size: number | null; // bytes, null when the server does not report it
+  type: string | null;
+  acceptsRanges: boolean;
+};
+
+export type DownloadOptions = {
+  signal?: AbortSignal;
+  chunkSize?: number; // bytes per range request, default 32 MiB
+  onProgress?: (ratio: number) => void;
+};
+
+const DEFAULT_CHUNK_SIZE = 32 * 1024 * 1024;
+
+/** HEAD request for the size and range support of a remote source */
+export async function inspectRemoteSource(url: string, signal?: AbortSignal): Promise<RemoteSourceInfo> {
+  const res = await fetch(url, { method: 'HEAD', signal });
+  if (!res.ok) throw new Error(`Source is not reachable (${res.status})`);
+  const length = Number(res.headers.get('Content-Length'));
+  return {
+    size: Number.isFinite(length) && length > 0 ? length : null,
+    type: res.headers.get('Content-Type'),
+    acceptsRanges: res.headers.get('Accept-Ranges') === 'bytes',
+  };
+}
+
+/**
+ * Downloads the whole remote source before it is transcoded, one HTTP range request per chunk,
+ * into a Blob made of the per-chunk Blobs. Nothing is fetched on demand; the chunks only keep the
+ * download from being one response body, the browser can keep them on disk, and WORKERFS reads
+ * the result without copying it into the transcoder's memory.
+ */
+export async function downloadSource(
+  url: string,
+  info: RemoteSourceInfo,
+  { signal, chunkSize = DEFAULT_CHUNK_SIZE, onProgress }: DownloadOptions = {}
+): Promise<Blob> {
+  const type = info.type ?? '';
+  if (!info.acceptsRanges || info.size === null) {
+    const res = await fetch(url, { signal });
+    if (!res.ok) throw new Error('Failed to download source file');
+    const blob = await res.blob();
+    onProgress?.(1);
+    return blob;
+  }
+
+  const parts: Blob[] = [];
+  for (let start = 0; start < info.size; start += chunkSize) {
+    const end = Math.min(info.size, start + chunkSize) - 1;
+    const res = await fetch(url, { headers: { Range: `bytes=${start}-${end}` }, signal });
+    if (res.status !== 206) throw new Error(`Range request failed (${res.status})`);
+    parts.push(await res.blob());
+    onProgress?.((end + 1) / info.size);
+  }
+  return new Blob(parts, { type });
+}
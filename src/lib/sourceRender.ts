@@ -0,0 +1,221 @@
+import type { BrandingOptions } from './branding';
+import { clipCues, clipRangesDuration, type ClipRange } from './clipRanges';
+import { inferExt, TEXT_SUBTITLE_CODECS } from './hlsTranscoder';
+import { probeFile, type MediaProbe } from './mediaProbe';
+import type { TranscoderSession } from './transcoderSession';
+import { videoFilterInputArgs, videoFilterOutputArgs, type VideoFilterPipeline } from './videoFilters';
+import { parseWebVtt, serializeWebVtt } from './webvtt';
+
+export type SourceRenderOptions = {
+  ranges?: ClipRange[]; // normalized; the kept parts are concatenated in order
+  branding?: BrandingOptions;
+  videoFilters?: VideoFilterPipeline; // the job's filters, applied to the source before the watermark
+};
+
+export type RenderedSource = {
+  media: Blob; // Matroska mezzanine: bumpers and the edited source, every audio stream, text subtitles
+  introSec: number; // subtitle and chapter times of the edited source shift by this much
+  outroSec: number;
+};
+
+// Intermediate quality: the mezzanine is encoded again by every ladder rung
+const MEZZANINE_CRF = '18';
+const MEZZANINE_AUDIO_BITRATE = '192k';
+// Assumed when the probe reports no bitrate; about what CRF 18 takes for 1080p
+const MEZZANINE_FALLBACK_BITRATE = 10_000_000;
+// Logo distance from the frame edges, as a share of the frame width
+const WATERMARK_MARGIN = 0.03;
+
+/** Bytes the mezzanine takes in the wasm heap while it is written, bumpers left out */
+export function estimateRenderedBytes(probe: MediaProbe, ranges?: ClipRange[]) {
+  const duration = ranges?.length ? clipRangesDuration(ranges) : probe.durationSec ?? 0;
+  return Math.ceil((duration * (probe.bitrate ?? MEZZANINE_FALLBACK_BITRATE)) / 8);
+}
+
+/**
+ * Renders the edited source in one pass: the kept ranges cut from the source and joined, the
+ * job's video filters and the watermark over them, then intro and outro scaled and padded to its
+ * frame and concatenated around it. Every source audio stream keeps its own track with the bumper
+ * audio (or silence) around it, and text subtitles are moved onto the edited timeline.
+ */
+export async function renderSource(
+  ff: TranscoderSession,
+  media: Blob,
+  probe: MediaProbe,
+  options: SourceRenderOptions,
+  onProgress?: (ratio: number) => void
+): Promise<RenderedSource> {
+  const { branding, videoFilters } = options;
+  const ranges = options.ranges?.length ? options.ranges : null;
+  const width = videoFilters?.width ?? probe.width;
+  const height = videoFilters?.height ?? probe.height;
+  const hasVideo = probe.hasVideo && !!width && !!height;
+  if (branding && !hasVideo) throw new Error('Branding needs a source with video');
+  const frameRate = videoFilters?.frameRate ?? String(probe.frameRate ?? 30);
+  const mainDuration = ranges ? clipRangesDuration(ranges) : probe.durationSec ?? 0;
+
+  const mounted: string[] = [];
+  const mount = async (blob: Blob, name: string) => {
+    const path = await ff.mountInput(blob, name);
+    mounted.push(path);
+    return path;
+  };
+  const written: string[] = [];
+
+  try {
+    const mainFile = await mount(media, `source.${inferExt(media.type) || 'mp4'}`);
+    // Only the span from the first in point to the last out point is decoded; the trim filters
+    // below count from its start
+    const spanStart = ranges ? ranges[0].start : 0;
+    const span = ranges ? ['-ss', spanStart.toFixed(6), '-to', ranges[ranges.length - 1].end.toFixed(6)] : [];
+    const inputs: string[] = [...videoFilterInputArgs(videoFilters), ...span, '-i', mainFile];
+    let inputCount = 1;
+    const addInput = (path: string) => {
+      inputs.push('-i', path);
+      return inputCount++;
+    };
+
+    const graph: string[] = [];
+    // Segment "1" is the source, or "1_<n>" for each kept range of it
+    const mainSegments = ranges ? ranges.map((_, n) => `1_${n}`) : ['1'];
+    const cutMain = (input: string, filters: string, audio: boolean, label: (segment: string) => string) => {
+      if (!ranges) {
+        graph.push(`${input}${filters}${label('1')}`);
+        return;
+      }
+      const [split, trim, setpts] = audio ? ['asplit', 'atrim', 'asetpts'] : ['split', 'trim', 'setpts'];
+      const parts = mainSegments.map((segment) => `[${label(segment).slice(1, -1)}_cut]`);
+      graph.push(`${input}${filters},${split}=${ranges.length}${parts.join('')}`);
+      ranges.forEach((range, n) => {
+        const bounds = `start=${(range.start - spanStart).toFixed(6)}:end=${(range.end - spanStart).toFixed(6)}`;
+        graph.push(`${parts[n]}${trim}=${bounds},${setpts}=PTS-STARTPTS${label(mainSegments[n])}`);
+      });
+    };
+
+    if (hasVideo) {
+      const chain = videoFilters?.chain ?? [];
+      graph.push(`[0:v:0]${[...chain, 'setsar=1'].join(',')}[main]`);
+      let mainVideo = '[main]';
+      if (branding?.logo) {
+        const logo = addInput(await mount(branding.logo, `logo.${branding.logo.type === 'image/jpeg' ? 'jpg' : 'png'}`));
+        const logoWidth = Math.max(2, Math.round((width * branding.scale) / 2) * 2);
+        const margin = Math.round(width * WATERMARK_MARGIN);
+        const x = branding.position.endsWith('left') ? String(margin) : `main_w-overlay_w-${margin}`;
+        const y = branding.position.startsWith('top') ? String(margin) : `main_h-overlay_h-${margin}`;
+        graph.push(`[${logo}:v]format=rgba,colorchannelmixer=aa=${branding.opacity},scale=${logoWidth}:-1[logo]`);
+        // A still image ends after one frame; overlay keeps repeating it
+        graph.push(`[main][logo]overlay=${x}:${y}[marked]`);
+        mainVideo = '[marked]';
+      }
+      cutMain(mainVideo, 'format=yuv420p', false, (segment) => `[v${segment}]`);
+    }
+
+    const audioStreams = probe.streams.filter((st) => st.type === 'audio');
+    const audioFormat = 'aformat=sample_rates=48000:channel_layouts=stereo';
+    for (const stream of audioStreams) {
+      cutMain(`[0:a:${stream.typeIndex}]`, audioFormat, true, (segment) => `[a${segment}_${stream.typeIndex}]`);
+    }
+    const audioLabels = (segment: string) => audioStreams.map((st) => `[a${segment}_${st.typeIndex}]`).join('');
+
+    // Bumpers take the source's frame size, frame rate and audio layout so concat can join them
+    const bumper = async (blob: Blob | undefined, segment: string, name: string) => {
+      if (!blob) return null;
+      const path = await mount(blob, `${name}.${inferExt(blob.type) || 'mp4'}`);
+      const bumperProbe = await probeFile(ff, path);
+      if (!bumperProbe.hasVideo || !bumperProbe.durationSec) throw new Error(`The ${name} clip has no readable video`);
+      const input = addInput(path);
+      graph.push(
+        `[${input}:v:0]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+          `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frameRate},format=yuv420p[v${segment}]`
+      );
+      if (audioStreams.length > 0) {
+        const audio = bumperProbe.hasAudio
+          ? `[${input}:a:0]${audioFormat}`
+          : `anullsrc=r=48000:cl=stereo,atrim=duration=${bumperProbe.durationSec}`;
+        graph.push(`${audio},asplit=${audioStreams.length}${audioLabels(segment)}`);
+      }
+      return { segment, durationSec: bumperProbe.durationSec };
+    };
+    const intro = await bumper(branding?.intro, '0', 'intro');
+    const outro = await bumper(branding?.outro, '2', 'outro');
+
+    const segments = [...(intro ? ['0'] : []), ...mainSegments, ...(outro ? ['2'] : [])];
+    const outputVideo = hasVideo ? '[vout]' : '';
+    const outputAudio = audioStreams.map((st) => `[aout_${st.typeIndex}]`).join('');
+    if (segments.length > 1) {
+      graph.push(
+        `${segments.map((s) => `${hasVideo ? `[v${s}]` : ''}${audioLabels(s)}`).join('')}` +
+          `concat=n=${segments.length}:v=${hasVideo ? 1 : 0}:a=${audioStreams.length}${outputVideo}${outputAudio}`
+      );
+    } else {
+      if (hasVideo) graph.push('[v1]null[vout]');
+      for (const stream of audioStreams) graph.push(`[a1_${stream.typeIndex}]anull[aout_${stream.typeIndex}]`);
+    }
+
+    // Text subtitles are extracted, moved onto the edited timeline and muxed back as WebVTT
+    const introSec = intro?.durationSec ?? 0;
+    const subtitles: { language?: string; title?: string; input: number }[] = [];
+    const textStreams = probe.streams.filter((st) => st.type === 'subtitle' && TEXT_SUBTITLE_CODECS.has(st.codec));
+    for (const stream of textStreams) {
+      const extracted = `subs_${stream.typeIndex}_source.vtt`;
+      await ff.exec(['-hide_banner', '-i', mainFile, '-map', `0:s:${stream.typeIndex}`, '-c:s', 'webvtt', '-y', extracted]);
+      const cues = clipCues(parseWebVtt(new TextDecoder().decode((await ff.readFile(extracted)) as Uint8Array)), ranges, introSec);
+      await ff.deleteFile(extracted);
+      if (cues.length === 0) continue;
+      const path = `subs_${stream.typeIndex}.vtt`;
+      await ff.writeFile(path, new TextEncoder().encode(serializeWebVtt(cues)));
+      written.push(path);
+      subtitles.push({ language: stream.language, title: stream.title, input: addInput(path) });
+    }
+
+    const output = 'rendered.mkv';
+    const totalDuration = introSec + mainDuration + (outro?.durationSec ?? 0);
+    await ff.exec(
+      [
+        '-hide_banner',
+        ...inputs,
+        '-filter_complex', graph.join(';'),
+        ...(hasVideo ? ['-map', '[vout]'] : []),
+        ...audioStreams.flatMap((st, n) => [
+          '-map', `[aout_${st.typeIndex}]`,
+          ...(st.language ? [`-metadata:s:a:${n}`, `language=${st.language}`] : []),
+          ...(st.title ? [`-metadata:s:a:${n}`, `title=${st.title}`] : []),
+          ...(st.isDefault ? [`-disposition:a:${n}`, 'default'] : []),
+        ]),
+        ...subtitles.flatMap((sub, n) => [
+          '-map', `${sub.input}:s:0`,
+          ...(sub.language ? [`-metadata:s:s:${n}`, `language=${sub.language}`] : []),
+          ...(sub.title ? [`-metadata:s:s:${n}`, `title=${sub.title}`] : []),
+        ]),
+        ...videoFilterOutputArgs(videoFilters),
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', MEZZANINE_CRF,
+        '-c:a', 'aac',
+        '-b:a', MEZZANINE_AUDIO_BITRATE,
+        '-c:s', 'webvtt',
+        '-f', 'matroska',
+        '-y', output,
+      ],
+      {
+        // FFmpeg reports output time against the whole duration of the first input, the source
+        onProgress: (progress) => {
+          const done = progress * (probe.durationSec ?? 0);
+          onProgress?.(totalDuration ? Math.min(0.99, done / totalDuration) : progress);
+        },
+      }
+    );
+
+    const data = (await ff.readFile(output)) as Uint8Array;
+    await ff.deleteFile(output);
+    onProgress?.(1);
+    return {
+      media: new Blob([data], { type: hasVideo ? 'video/x-matroska' : 'audio/x-matroska' }),
+      introSec,
+      outroSec: outro?.durationSec ?? 0,
+    };
+  } finally {
+    for (const path of written) await ff.deleteFile(path);
+    for (const path of mounted) await ff.unmountInput(path);
+  }
+}
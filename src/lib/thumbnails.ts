@@ -0,0 +1,210 @@
+import { inferExt } from './hlsTranscoder';
+import type { MediaProbe } from './mediaProbe';
+import type { TranscoderSession } from './transcoderSession';
+import { parseWebVtt, serializeWebVtt, type VttCue } from './webvtt';
+
+export type ThumbnailOptions = {
+  interval?: number; // seconds between frames, default 5
+  width?: number; // tile width in px, default 160
+  columns?: number; // tiles per sprite row, default 10
+  rows?: number; // tile rows per sprite sheet, default 10
+};
+
+export type ThumbnailOutput = {
+  files: Record<string, Uint8Array>;
+  vttName: string;
+  spriteNames: string[];
+};
+
+export type PosterOptions = {
+  timestamp?: number; // seconds, default 10% into the source
+  widths?: number[]; // output widths, larger than the source are skipped
+  formats?: PosterFormat[];
+};
+
+export type PosterFormat = 'jpeg' | 'webp';
+
+export type PosterImage = {
+  name: string;
+  width: number;
+  height: number;
+  format: PosterFormat;
+};
+
+export type PosterOutput = {
+  files: Record<string, Uint8Array>;
+  images: PosterImage[];
+};
+
+export type ThumbnailCue = {
+  start: number;
+  end: number;
+  url: string; // sprite sheet URL, resolved against the VTT location
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+/**
+ * Renders frames at a fixed interval into JPEG sprite sheets and writes a WebVTT thumbnails
+ * track pointing at each tile with a `#xywh=` media fragment
+ */
+export async function generateThumbnails(
+  ff: TranscoderSession,
+  media: Blob,
+  probe: MediaProbe,
+  options: ThumbnailOptions = {}
+): Promise<ThumbnailOutput> {
+  if (!probe.hasVideo || !probe.width || !probe.height) throw new Error('Source has no video to thumbnail');
+  const duration = probe.durationSec ?? 0;
+  if (duration <= 0) throw new Error('Source duration is unknown');
+
+  const interval = options.interval ?? 5;
+  const columns = options.columns ?? 10;
+  const rows = options.rows ?? 10;
+  const tileWidth = options.width ?? 160;
+  const tileHeight = Math.max(2, Math.round((tileWidth * probe.height) / probe.width / 2) * 2);
+  const perSheet = columns * rows;
+  const count = Math.max(1, Math.ceil(duration / interval));
+
+  const inputFile = await ff.mountInput(media, `thumbs.${inferExt(media.type) || 'mp4'}`);
+
+  const spritePattern = 'sprite_%03d.jpg';
+  try {
+    await ff.exec([
+      '-i', inputFile,
+      '-map', '0:v:0',
+      '-an', '-sn',
+      '-vf', `fps=1/${interval},scale=${tileWidth}:${tileHeight},tile=${columns}x${rows}`,
+      '-q:v', '5',
+      '-start_number', '0',
+      spritePattern,
+    ]);
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const spriteNames: string[] = [];
+  const sheets = Math.ceil(count / perSheet);
+  for (let i = 0; i < sheets; i++) {
+    const name = `sprite_${String(i).padStart(3, '0')}.jpg`;
+    try {
+      files[name] = (await ff.readFile(name)) as Uint8Array;
+      await ff.deleteFile(name);
+      spriteNames.push(name);
+    } catch {
+      // fps=1/N rounds the frame count, the last sheet may not exist for very short tails
+    }
+  }
+  if (spriteNames.length === 0) throw new Error('Failed to render thumbnail sprites');
+
+  const cues: VttCue[] = [];
+  const available = Math.min(count, spriteNames.length * perSheet);
+  for (let i = 0; i < available; i++) {
+    const pos = i % perSheet;
+    const x = (pos % columns) * tileWidth;
+    const y = Math.floor(pos / columns) * tileHeight;
+    cues.push({
+      start: i * interval,
+      end: Math.min(duration, (i + 1) * interval),
+      text: `${spriteNames[Math.floor(i / perSheet)]}#xywh=${x},${y},${tileWidth},${tileHeight}`,
+    });
+  }
+
+  const vttName = 'thumbnails.vtt';
+  files[vttName] = new TextEncoder().encode(serializeWebVtt(cues));
+  return { files, vttName, spriteNames };
+}
+
+/**
+ * Extracts a representative poster frame at (or after) the requested timestamp, skipping black
+ * frames, and encodes it at several widths as JPEG and WebP
+ */
+export async function extractPoster(
+  ff: TranscoderSession,
+  media: Blob,
+  probe: MediaProbe,
+  options: PosterOptions = {}
+): Promise<PosterOutput> {
+  if (!probe.hasVideo || !probe.width || !probe.height) throw new Error('Source has no video for a poster');
+  const { width: sourceWidth, height: sourceHeight } = probe;
+  const duration = probe.durationSec ?? 0;
+  const timestamp = Math.max(0, Math.min(options.timestamp ?? duration * 0.1, Math.max(0, duration - 1)));
+  const formats = options.formats ?? ['jpeg', 'webp'];
+  const widths = [...new Set(options.widths ?? [1280, 640, 320])]
+    .filter((w) => w <= sourceWidth)
+    .sort((a, b) => b - a);
+  if (widths.length === 0) widths.push(sourceWidth);
+
+  const inputFile = await ff.mountInput(media, `poster.${inferExt(media.type) || 'mp4'}`);
+  const frameFile = 'poster_frame.png';
+
+  try {
+    // blackframe with amount=0 tags every frame with its black pixel ratio, mostly black frames
+    // are dropped and `thumbnail` picks the most representative of the next frames
+    await ff.exec([
+      '-ss', String(timestamp),
+      '-i', inputFile,
+      '-map', '0:v:0',
+      '-vf', 'blackframe=amount=0:threshold=32,metadata=mode=select:key=lavfi.blackframe.pblack:value=90:function=less,thumbnail=50',
+      '-frames:v', '1',
+      '-y', frameFile,
+    ]);
+    if (!(await hasFile(ff, frameFile))) {
+      // Nothing but black after the timestamp, fall back to the frame at the timestamp itself
+      await ff.exec(['-ss', String(timestamp), '-i', inputFile, '-map', '0:v:0', '-frames:v', '1', '-y', frameFile]);
+    }
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+  if (!(await hasFile(ff, frameFile))) throw new Error('Failed to extract a poster frame');
+
+  const files: Record<string, Uint8Array> = {};
+  const images: PosterImage[] = [];
+  for (const width of widths) {
+    const height = Math.max(2, Math.round((width * sourceHeight) / sourceWidth / 2) * 2);
+    for (const format of formats) {
+      const name = `poster_${width}.${format === 'jpeg' ? 'jpg' : 'webp'}`;
+      const codecArgs = format === 'jpeg' ? ['-q:v', '3'] : ['-c:v', 'libwebp', '-quality', '80'];
+      await ff.exec(['-i', frameFile, '-vf', `scale=${width}:${height}`, ...codecArgs, '-y', name]);
+      files[name] = (await ff.readFile(name)) as Uint8Array;
+      await ff.deleteFile(name);
+      images.push({ name, width, height, format });
+    }
+  }
+  await ff.deleteFile(frameFile);
+
+  return { files, images };
+}
+
+/**
+ * Parses a WebVTT thumbnails track, resolving sprite references relative to the track URL
+ */
+export function parseThumbnailVtt(text: string, vttUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+  for (const cue of parseWebVtt(text)) {
+    const m = cue.text.trim().match(/^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+    if (!m) continue;
+    cues.push({
+      start: cue.start,
+      end: cue.end,
+      url: new URL(m[1], vttUrl).toString(),
+      x: Number(m[2]),
+      y: Number(m[3]),
+      w: Number(m[4]),
+      h: Number(m[5]),
+    });
+  }
+  return cues;
+}
+
+export function findThumbnail(cues: ThumbnailCue[], time: number) {
+  return cues.find((c) => time >= c.start && time < c.end) ?? cues[cues.length - 1] ?? null;
+}
+
+async function hasFile(ff: TranscoderSession, name: string) {
+  const nodes = await ff.listDir('.');
+  return nodes.some((n) => !n.isDir && n.name === name);
+}
@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Browser transcodes running in this tab, keyed by job id
+const running = new Map<string, AbortController>();
+
+export class TranscodeCancelledError extends Error {
+  constructor() {
+    super('Transcode cancelled');
+    this.name = 'TranscodeCancelledError';
+  }
+}
+
+export function beginTranscode(jobId: string) {
+  running.get(jobId)?.abort();
+  const controller = new AbortController();
+  running.set(jobId, controller);
+  return controller.signal;
+}
+
+export function endTranscode(jobId: string, signal: AbortSignal) {
+  // A restarted job registers a new controller; leave that one alone
+  if (running.get(jobId)?.signal === signal) running.delete(jobId);
+}
+
+export function isTranscodeRunning(jobId: string) {
+  return running.has(jobId);
+}
+
+/**
+ * Aborts a transcode running in this tab; its transcoder worker is terminated since ffmpeg.wasm
+ * cannot interrupt a single exec. Returns false when the job is not running here.
+ */
+export function cancelTranscode(jobId: string) {
+  const controller = running.get(jobId);
+  if (!controller) return false;
+  controller.abort();
+  running.delete(jobId);
+  return true;
+}
+
+export function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) throw new TranscodeCancelledError();
+}
+
+/** Removes everything uploaded to the job's output folder */
+export async function removeJobOutputs(userId: string, jobId: string) {
+  const bucket = supabase.storage.from('transcoded-outputs');
+  const folder = `${userId}/${jobId}`;
+  for (;;) {
+    const { data, error } = await bucket.list(folder, { limit: 1000 });
+    if (error) throw error;
+    const paths = (data ?? []).filter((item) => item.id).map((item) => `${folder}/${item.name}`);
+    if (paths.length === 0) return;
+    const { data: removed, error: removeError } = await bucket.remove(paths);
+    if (removeError) throw removeError;
+    // Nothing removed means storage policies refused it; stop instead of listing the same page again
+    if (!removed?.length) return;
+  }
+}
@@ -0,0 +1,114 @@
+import { detectChapters } from './chapters';
+import { concatSources, type ConcatSource } from './concatSources';
+import {
+  encodeHlsChunk,
+  encodeHlsSideTracks,
+  transcodeToDash,
+  transcodeToHls,
+  type HlsChunk,
+  type HlsOptions,
+} from './hlsTranscoder';
+import { measureLoudness, type LoudnessTarget } from './loudness';
+import { probeKeyframes, probeMedia, type MediaProbe } from './mediaProbe';
+import { renderSource, type SourceRenderOptions } from './sourceRender';
+import { extractPoster, generateThumbnails, type PosterOptions, type ThumbnailOptions } from './thumbnails';
+import { TranscoderSession } from './transcoderSession';
+import { analyzeVideo } from './videoFilters';
+import { generateWaveform } from './waveform';
+
+export type TranscoderTask =
+  | { kind: 'probe' }
+  | { kind: 'keyframes' }
+  | { kind: 'loudness'; target: LoudnessTarget; audioStreams: number[] }
+  | { kind: 'video-analysis'; probe: MediaProbe }
+  | { kind: 'concat'; sources: ConcatSource[] }
+  | { kind: 'render-source'; probe: MediaProbe; options: SourceRenderOptions }
+  | { kind: 'thumbnails'; probe: MediaProbe; options?: ThumbnailOptions }
+  | { kind: 'poster'; probe: MediaProbe; options?: PosterOptions }
+  | { kind: 'waveform'; probe: MediaProbe }
+  | { kind: 'chapters'; probe: MediaProbe }
+  | { kind: 'hls'; options: HlsOptions }
+  | { kind: 'dash'; options: HlsOptions }
+  | { kind: 'hls-chunk'; chunk: HlsChunk; options: HlsOptions }
+  | { kind: 'hls-side-tracks'; options: HlsOptions };
+
+export type TranscoderRequest = {
+  id: number;
+  media: Blob;
+  task: TranscoderTask;
+};
+
+export type TranscoderResponse =
+  | { id: number; type: 'progress'; ratio: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+// The app is type-checked against the DOM lib, declare the bits of the worker scope in use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<TranscoderRequest>) => void) | null;
+  postMessage: (message: TranscoderResponse, transfer?: Transferable[]) => void;
+};
+
+// One FFmpeg session per worker; the client terminates the worker to cancel
+let session: Promise<TranscoderSession> | null = null;
+// Tasks share the session's FS, run them one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+scope.onmessage = ({ data: { id, media, task } }) => {
+  queue = queue.then(async () => {
+    try {
+      session ??= TranscoderSession.create().catch((error) => {
+        session = null;
+        throw error;
+      });
+      const ff = await session;
+      const onProgress = (ratio: number) => scope.postMessage({ id, type: 'progress', ratio });
+      const result = await runTask(ff, media, task, onProgress);
+      scope.postMessage({ id, type: 'result', result }, transferablesOf(result));
+    } catch (error) {
+      scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
+
+function runTask(ff: TranscoderSession, media: Blob, task: TranscoderTask, onProgress: (ratio: number) => void) {
+  switch (task.kind) {
+    case 'probe':
+      return probeMedia(ff, media);
+    case 'keyframes':
+      return probeKeyframes(ff, media);
+    case 'loudness':
+      return measureLoudness(ff, media, task.target, task.audioStreams);
+    case 'video-analysis':
+      return analyzeVideo(ff, media, task.probe);
+    case 'concat':
+      return concatSources(ff, task.sources, onProgress);
+    case 'render-source':
+      return renderSource(ff, media, task.probe, task.options, onProgress);
+    case 'thumbnails':
+      return generateThumbnails(ff, media, task.probe, task.options);
+    case 'poster':
+      return extractPoster(ff, media, task.probe, task.options);
+    case 'waveform':
+      return generateWaveform(ff, media, task.probe, onProgress);
+    case 'chapters':
+      return detectChapters(ff, media, task.probe, onProgress);
+    case 'hls':
+      return transcodeToHls(ff, media, onProgress, task.options);
+    case 'dash':
+      return transcodeToDash(ff, media, onProgress, task.options);
+    case 'hls-chunk':
+      return encodeHlsChunk(ff, media, task.chunk, onProgress, task.options);
+    case 'hls-side-tracks':
+      return encodeHlsSideTracks(ff, media, onProgress, task.options);
+  }
+}
+
+// Output files are moved to the main thread instead of copied
+function transferablesOf(result: unknown) {
+  const files = (result as { files?: Record<string, Uint8Array> } | null)?.files;
+  if (!files) return [];
+  return [...new Set(Object.values(files).map((bytes) => bytes.buffer))].filter(
+    (buffer): buffer is ArrayBuffer => buffer instanceof ArrayBuffer
+  );
+}
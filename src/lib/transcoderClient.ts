@@ -0,0 +1,144 @@
+import type { ChapterDetection } from './chapters';
+import type { ConcatOutput, ConcatSource } from './concatSources';
+import type {
+  DashOutput,
+  HlsChunk,
+  HlsChunkOutput,
+  HlsOptions,
+  HlsOutput,
+  HlsSideTracks,
+} from './hlsTranscoder';
+import type { LoudnessStats, LoudnessTarget } from './loudness';
+import type { MediaProbe } from './mediaProbe';
+import type { RenderedSource, SourceRenderOptions } from './sourceRender';
+import type { PosterOptions, PosterOutput, ThumbnailOptions, ThumbnailOutput } from './thumbnails';
+import type { TranscoderRequest, TranscoderResponse, TranscoderTask } from './transcoder.worker';
+import type { VideoAnalysis } from './videoFilters';
+import type { WaveformOutput } from './waveform';
+
+type PendingTask = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (ratio: number) => void;
+};
+
+export type TranscoderClientOptions = {
+  signal?: AbortSignal; // aborting terminates the worker and rejects every pending task
+};
+
+/**
+ * Main-thread handle on a dedicated transcoder worker with its own FFmpeg session, so encodes
+ * never block the UI and concurrent jobs never share FFmpeg state. Dispose when done.
+ */
+export class TranscoderClient {
+  private readonly worker: Worker;
+  private readonly pending = new Map<number, PendingTask>();
+  private nextId = 1;
+  private disposed = false;
+
+  constructor({ signal }: TranscoderClientOptions = {}) {
+    this.worker = new Worker(new URL('./transcoder.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = ({ data }: MessageEvent<TranscoderResponse>) => this.handleMessage(data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.dispose(new Error(event.message || 'Transcoder worker crashed'));
+    };
+    if (signal?.aborted) this.dispose(new DOMException('Transcode aborted', 'AbortError'));
+    signal?.addEventListener('abort', () => this.dispose(new DOMException('Transcode aborted', 'AbortError')), {
+      once: true,
+    });
+  }
+
+  probe(media: Blob) {
+    return this.run<MediaProbe>(media, { kind: 'probe' });
+  }
+
+  probeKeyframes(media: Blob) {
+    return this.run<number[]>(media, { kind: 'keyframes' });
+  }
+
+  /** First loudnorm pass over the given audio streams (indexes among audio streams) */
+  measureLoudness(media: Blob, target: LoudnessTarget, audioStreams: number[]) {
+    return this.run<Record<number, LoudnessStats>>(media, { kind: 'loudness', target, audioStreams });
+  }
+
+  /** Samples the source for black borders, interlacing and variable frame rate */
+  analyzeVideo(media: Blob, probe: MediaProbe) {
+    return this.run<VideoAnalysis>(media, { kind: 'video-analysis', probe });
+  }
+
+  /** Joins the sources of a merged job into one mezzanine in a common format */
+  concatSources(sources: ConcatSource[], onProgress?: (ratio: number) => void) {
+    return this.run<ConcatOutput>(sources[0].media, { kind: 'concat', sources }, onProgress);
+  }
+
+  /** Renders the kept ranges with the watermark and bumpers; the result is encoded instead of the source */
+  renderSource(media: Blob, probe: MediaProbe, options: SourceRenderOptions, onProgress?: (ratio: number) => void) {
+    return this.run<RenderedSource>(media, { kind: 'render-source', probe, options }, onProgress);
+  }
+
+  generateThumbnails(media: Blob, probe: MediaProbe, options?: ThumbnailOptions) {
+    return this.run<ThumbnailOutput>(media, { kind: 'thumbnails', probe, options });
+  }
+
+  extractPoster(media: Blob, probe: MediaProbe, options?: PosterOptions) {
+    return this.run<PosterOutput>(media, { kind: 'poster', probe, options });
+  }
+
+  /** Min/max peaks of the main audio track at a few zoom levels, for the preview scrubber */
+  generateWaveform(media: Blob, probe: MediaProbe, onProgress?: (ratio: number) => void) {
+    return this.run<WaveformOutput>(media, { kind: 'waveform', probe }, onProgress);
+  }
+
+  /** Chapter points on the strongest scene changes, each with a thumbnail */
+  detectChapters(media: Blob, probe: MediaProbe, onProgress?: (ratio: number) => void) {
+    return this.run<ChapterDetection>(media, { kind: 'chapters', probe }, onProgress);
+  }
+
+  transcodeToHls(media: Blob, onProgress?: (ratio: number) => void, options: HlsOptions = {}) {
+    return this.run<HlsOutput>(media, { kind: 'hls', options }, onProgress);
+  }
+
+  transcodeToDash(media: Blob, onProgress?: (ratio: number) => void, options: HlsOptions = {}) {
+    return this.run<DashOutput>(media, { kind: 'dash', options }, onProgress);
+  }
+
+  encodeHlsChunk(media: Blob, chunk: HlsChunk, onProgress?: (ratio: number) => void, options: HlsOptions = {}) {
+    return this.run<HlsChunkOutput>(media, { kind: 'hls-chunk', chunk, options }, onProgress);
+  }
+
+  encodeHlsSideTracks(media: Blob, onProgress?: (ratio: number) => void, options: HlsOptions = {}) {
+    return this.run<HlsSideTracks>(media, { kind: 'hls-side-tracks', options }, onProgress);
+  }
+
+  dispose(reason: Error = new Error('Transcoder was disposed')) {
+    if (this.disposed) return;
+    this.disposed = true;
+    // Terminating the worker also ends the FFmpeg worker it started
+    this.worker.terminate();
+    for (const task of this.pending.values()) task.reject(reason);
+    this.pending.clear();
+  }
+
+  private run<T>(media: Blob, task: TranscoderTask, onProgress?: (ratio: number) => void) {
+    if (this.disposed) return Promise.reject(new Error('Transcoder was disposed'));
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+      const request: TranscoderRequest = { id, media, task };
+      this.worker.postMessage(request);
+    });
+  }
+
+  private handleMessage(message: TranscoderResponse) {
+    const task = this.pending.get(message.id);
+    if (!task) return;
+    if (message.type === 'progress') {
+      task.onProgress?.(message.ratio);
+      return;
+    }
+    this.pending.delete(message.id);
+    if (message.type === 'result') task.resolve(message.result);
+    else task.reject(new Error(message.message));
+  }
+}
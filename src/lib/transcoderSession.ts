@@ -0,0 +1,190 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { toBlobURL } from '@ffmpeg/util';
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import coreMtURL from '@ffmpeg/core-mt?url';
+import wasmMtURL from '@ffmpeg/core-mt/wasm?url';
+import workerMtURL from '@ffmpeg/core-mt/worker?url';
+
+type FileData = Parameters<FFmpeg['writeFile']>[1];
+// FFFSType is a declared enum the package does not export
+const WORKERFS = 'WORKERFS' as Parameters<FFmpeg['mount']>[0];
+type LogHandler = (message: string) => void;
+type ProgressHandler = (ratio: number) => void;
+
+export type CoreSource = 'bundled' | 'cdn';
+
+export type SessionOptions = {
+  log?: boolean; // mirror FFmpeg output to the console
+  signal?: AbortSignal; // aborting disposes the session and rejects the running call
+  coreSource?: CoreSource; // default from VITE_FFMPEG_CORE_SOURCE, else the copy bundled with the app
+  multiThread?: boolean; // default when the page is cross-origin isolated (SharedArrayBuffer available)
+};
+
+type CoreFiles = {
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string;
+};
+
+export type ExecOptions = {
+  onProgress?: ProgressHandler;
+  onLog?: LogHandler;
+};
+
+// Keep in step with the @ffmpeg/core and @ffmpeg/core-mt versions in package.json
+const CORE_VERSION = '0.12.6';
+const CDN_BASE_URL = 'https://cdn.jsdelivr.net/npm';
+
+/**
+ * One loaded FFmpeg instance with its own virtual FS. Event listeners only live for the exec
+ * that registered them, so sessions never see progress from other jobs. Dispose (or abort the
+ * signal) to terminate the FFmpeg worker; every later call rejects.
+ */
+export class TranscoderSession {
+  private readonly ff = new FFmpeg();
+  private readonly signal?: AbortSignal;
+  private readonly listeners = new Set<() => void>();
+  private disposed = false;
+  private mounts = 0;
+
+  private constructor(signal?: AbortSignal) {
+    this.signal = signal;
+  }
+
+  static async create({
+    log = false,
+    signal,
+    coreSource = defaultCoreSource(),
+    multiThread = self.crossOriginIsolated,
+  }: SessionOptions = {}) {
+    const session = new TranscoderSession(signal);
+    session.throwIfAborted();
+    signal?.addEventListener('abort', () => session.dispose(), { once: true });
+    if (log) session.on('log', (message) => console.log('[ffmpeg]', message));
+    try {
+      await session.guard(async () => session.ff.load(await resolveCore(coreSource, multiThread)));
+    } catch (error) {
+      session.dispose();
+      throw error;
+    }
+    return session;
+  }
+
+  /** Session-wide listener, removed on dispose or through the returned function */
+  on(event: 'log', handler: LogHandler): () => void;
+  on(event: 'progress', handler: ProgressHandler): () => void;
+  on(event: 'log' | 'progress', handler: LogHandler | ProgressHandler) {
+    let off: () => void;
+    if (event === 'log') {
+      const listener = ({ message }: { message: string }) => (handler as LogHandler)(message);
+      this.ff.on('log', listener);
+      off = () => this.ff.off('log', listener);
+    } else {
+      const listener = ({ progress }: { progress: number }) => (handler as ProgressHandler)(progress);
+      this.ff.on('progress', listener);
+      off = () => this.ff.off('progress', listener);
+    }
+    const remove = () => {
+      if (this.listeners.delete(remove)) off();
+    };
+    this.listeners.add(remove);
+    return remove;
+  }
+
+  /** Runs one FFmpeg command; the handlers only receive events from this command */
+  async exec(args: string[], { onProgress, onLog }: ExecOptions = {}) {
+    const offProgress = onProgress && this.on('progress', onProgress);
+    const offLog = onLog && this.on('log', onLog);
+    try {
+      return await this.guard(() => this.ff.exec(args));
+    } finally {
+      offProgress?.();
+      offLog?.();
+    }
+  }
+
+  writeFile(path: string, data: FileData) {
+    return this.guard(() => this.ff.writeFile(path, data));
+  }
+
+  readFile(path: string) {
+    return this.guard(() => this.ff.readFile(path));
+  }
+
+  deleteFile(path: string) {
+    return this.guard(() => this.ff.deleteFile(path));
+  }
+
+  listDir(path: string) {
+    return this.guard(() => this.ff.listDir(path));
+  }
+
+  createDir(path: string) {
+    return this.guard(() => this.ff.createDir(path));
+  }
+
+  deleteDir(path: string) {
+    return this.guard(() => this.ff.deleteDir(path));
+  }
+
+  /**
+   * Exposes a Blob or File to FFmpeg through WORKERFS. Reads go straight to the Blob, so large
+   * sources are never copied into the wasm heap. Returns the path to pass to `-i`.
+   */
+  async mountInput(media: Blob, name: string) {
+    const mountPoint = `/input${++this.mounts}`;
+    await this.createDir(mountPoint);
+    await this.guard(() => this.ff.mount(WORKERFS, { blobs: [{ name, data: media }] }, mountPoint));
+    return `${mountPoint}/${name}`;
+  }
+
+  async unmountInput(path: string) {
+    const mountPoint = path.slice(0, path.lastIndexOf('/'));
+    await this.guard(() => this.ff.unmount(mountPoint));
+    await this.deleteDir(mountPoint);
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    for (const remove of [...this.listeners]) remove();
+    this.ff.terminate();
+  }
+
+  private throwIfAborted() {
+    if (this.signal?.aborted) throw new DOMException('Transcode aborted', 'AbortError');
+    if (this.disposed) throw new Error('Transcoder session was disposed');
+  }
+
+  // Terminating FFmpeg rejects pending calls with a generic error; report aborts as such
+  private async guard<T>(call: () => Promise<T>) {
+    this.throwIfAborted();
+    try {
+      return await call();
+    } catch (error) {
+      this.throwIfAborted();
+      throw error;
+    }
+  }
+}
+
+function defaultCoreSource(): CoreSource {
+  return import.meta.env.VITE_FFMPEG_CORE_SOURCE === 'cdn' ? 'cdn' : 'bundled';
+}
+
+// The multi-threaded core spawns pthread workers over SharedArrayBuffer, which browsers only
+// expose to cross-origin isolated pages (COOP/COEP headers)
+async function resolveCore(source: CoreSource, multiThread: boolean): Promise<CoreFiles> {
+  if (source === 'bundled') {
+    return multiThread
+      ? { coreURL: coreMtURL, wasmURL: wasmMtURL, workerURL: workerMtURL }
+      : { coreURL, wasmURL };
+  }
+  const base = `${CDN_BASE_URL}/@ffmpeg/${multiThread ? 'core-mt' : 'core'}@${CORE_VERSION}/dist/esm`;
+  return {
+    coreURL: await toBlobURL(`${base}/ffmpeg-core.js`, 'text/javascript'),
+    wasmURL: await toBlobURL(`${base}/ffmpeg-core.wasm`, 'application/wasm'),
+    workerURL: multiThread ? await toBlobURL(`${base}/ffmpeg-core.worker.js`, 'text/javascript') : undefined,
+  };
+}
@@ -0,0 +1,209 @@
+import { inferExt } from './hlsTranscoder';
+import type { MediaProbe } from './mediaProbe';
+import type { TranscoderSession } from './transcoderSession';
+
+export type Deinterlacer = 'yadif' | 'bwdif';
+export type DenoiseStrength = 'light' | 'medium' | 'strong';
+
+/** Filters requested for a job (`transcoding_jobs.video_filters`) */
+export type VideoFilterOptions = {
+  autoCrop: boolean; // remove letterboxing and pillarboxing found by cropdetect
+  deinterlace: Deinterlacer | 'off'; // only applied to sources found to be interlaced
+  denoise: DenoiseStrength | 'off';
+  constantFrameRate: boolean; // convert variable frame rate sources to a standard constant rate
+};
+
+export type CropArea = {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+};
+
+/** What the sampled analysis found in the first video stream, in its stored orientation */
+export type VideoAnalysis = {
+  crop: CropArea | null; // null when no black borders were found
+  interlaced: boolean;
+  variableFrameRate: boolean;
+};
+
+/**
+ * The filters chosen for a job, stored on it (`transcoding_jobs.video_filter_pipeline`) so an
+ * encode can be reproduced or resumed with the same frames. `chain` runs before every rung's
+ * scale filter; rotation is applied there instead of by FFmpeg's autorotate.
+ */
+export type VideoFilterPipeline = {
+  deinterlace: Deinterlacer | null;
+  frameRate: string | null; // constant output rate, e.g. 30000/1001; null keeps the source timing
+  crop: CropArea | null;
+  denoise: DenoiseStrength | null;
+  rotation: number; // degrees clockwise, from the source's display matrix
+  chain: string[];
+  width: number; // frame size after the chain, before scaling
+  height: number;
+};
+
+export const DEFAULT_VIDEO_FILTERS: VideoFilterOptions = {
+  autoCrop: true,
+  deinterlace: 'bwdif',
+  denoise: 'off',
+  constantFrameRate: true,
+};
+
+// Short windows spread over the source; titles and fades at either end are skipped
+const SAMPLE_POSITIONS = [0.2, 0.5, 0.8];
+const SAMPLE_SECONDS = 5;
+// Borders thinner than this share of the frame are compression noise at the edges, not bars
+const MIN_CROP_RATIO = 0.02;
+// A few irregular frames (dropped or duplicated on capture) do not make a source VFR
+const MIN_VFR_RATIO = 0.05;
+
+const STANDARD_FRAME_RATES = ['24000/1001', '24', '25', '30000/1001', '30', '50', '60000/1001', '60'];
+
+// hqdn3d luma_spatial:chroma_spatial:luma_tmp:chroma_tmp; medium is the filter's default
+const DENOISE_FILTERS: Record<DenoiseStrength, string> = {
+  light: 'hqdn3d=2:1.5:3:2.25',
+  medium: 'hqdn3d=4:3:6:4.5',
+  strong: 'hqdn3d=8:6:12:9',
+};
+
+// The filters autorotate would insert for each display matrix rotation
+const ROTATION_FILTERS: Record<number, string[]> = {
+  0: [],
+  90: ['transpose=clock'],
+  180: ['hflip', 'vflip'],
+  270: ['transpose=cclock'],
+};
+
+/**
+ * Samples a few windows of the first video stream with idet, vfrdet and cropdetect. Autorotate
+ * is off, so crop areas are in the stored orientation the pipeline crops in.
+ */
+export async function analyzeVideo(ff: TranscoderSession, media: Blob, probe: MediaProbe): Promise<VideoAnalysis> {
+  const duration = probe.durationSec ?? 0;
+  const starts = duration > SAMPLE_SECONDS * 2 ? SAMPLE_POSITIONS.map((p) => p * duration) : [0];
+
+  const inputFile = await ff.mountInput(media, `analysis.${inferExt(media.type) || 'mp4'}`);
+  const crops: CropArea[] = [];
+  const fields = { interlaced: 0, progressive: 0 };
+  const frames = { variable: 0, constant: 0 };
+  try {
+    for (const start of starts) {
+      let crop: CropArea | null = null;
+      await ff.exec(
+        [
+          '-hide_banner',
+          '-noautorotate',
+          '-ss', start.toFixed(3),
+          '-t', String(SAMPLE_SECONDS),
+          '-i', inputFile,
+          '-map', '0:v:0',
+          '-vf', 'idet,vfrdet,cropdetect=limit=24:round=2:reset=0',
+          '-an',
+          '-f', 'null',
+          '-',
+        ],
+        {
+          onLog: (message) => {
+            let m: RegExpMatchArray | null;
+            // cropdetect logs the area found so far after every frame, the last one covers the window
+            if ((m = message.match(/crop=(-?\d+):(-?\d+):(-?\d+):(-?\d+)/))) {
+              const [width, height, x, y] = m.slice(1).map(Number);
+              crop = width > 0 && height > 0 ? { width, height, x, y } : null;
+            } else if ((m = message.match(/Multi frame detection: TFF:\s*(\d+) BFF:\s*(\d+) Progressive:\s*(\d+)/))) {
+              fields.interlaced += Number(m[1]) + Number(m[2]);
+              fields.progressive += Number(m[3]);
+            } else if ((m = message.match(/VFR:[\d.]+ \((\d+)\/(\d+)\)/))) {
+              frames.variable += Number(m[1]);
+              frames.constant += Number(m[2]);
+            }
+          },
+        }
+      );
+      if (crop) crops.push(crop);
+    }
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+
+  const video = probe.streams.find((st) => st.type === 'video' && !st.attachedPic);
+  const fieldOrder = video?.fieldOrder;
+  const totalFrames = frames.variable + frames.constant;
+  return {
+    crop: video?.width && video.height ? borderCrop(crops, video.width, video.height) : null,
+    interlaced: (!!fieldOrder && fieldOrder !== 'progressive') || fields.interlaced > fields.progressive,
+    variableFrameRate: totalFrames > 0 && frames.variable / totalFrames > MIN_VFR_RATIO,
+  };
+}
+
+/** Chooses the filters for a job from its options and the analysis of its source */
+export function planVideoFilters(probe: MediaProbe, options: VideoFilterOptions, analysis: VideoAnalysis): VideoFilterPipeline {
+  const video = probe.streams.find((st) => st.type === 'video' && !st.attachedPic);
+  let width = video?.width ?? 0;
+  let height = video?.height ?? 0;
+  const chain: string[] = [];
+
+  // Fields are woven in the stored orientation, before anything moves or drops lines
+  const deinterlace = options.deinterlace !== 'off' && analysis.interlaced ? options.deinterlace : null;
+  if (deinterlace) chain.push(`${deinterlace}=mode=send_frame:parity=auto:deint=all`);
+
+  const frameRate = options.constantFrameRate && analysis.variableFrameRate ? standardFrameRate(probe.frameRate) : null;
+  if (frameRate) chain.push(`fps=${frameRate}`);
+
+  const crop = options.autoCrop ? analysis.crop : null;
+  if (crop) {
+    chain.push(`crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}`);
+    width = crop.width;
+    height = crop.height;
+  }
+
+  const denoise = options.denoise !== 'off' ? options.denoise : null;
+  if (denoise) chain.push(DENOISE_FILTERS[denoise]);
+
+  const rotation = ROTATION_FILTERS[probe.rotation] ? probe.rotation : 0;
+  chain.push(...ROTATION_FILTERS[rotation]);
+  if (rotation === 90 || rotation === 270) [width, height] = [height, width];
+
+  return { deinterlace, frameRate, crop, denoise, rotation, chain, width, height };
+}
+
+/**
+ * Input and output arguments an encode needs around the chain: autorotate is turned off because
+ * the chain rotates, and the copied display matrix is reset so players do not rotate again
+ */
+export function videoFilterInputArgs(pipeline: VideoFilterPipeline | undefined) {
+  return pipeline ? ['-noautorotate'] : [];
+}
+
+export function videoFilterOutputArgs(pipeline: VideoFilterPipeline | undefined) {
+  return pipeline && pipeline.rotation !== 0 ? ['-metadata:s:v', 'rotate=0'] : [];
+}
+
+// Bounding box of the areas found in every window, so picture seen in any of them is kept
+function borderCrop(crops: CropArea[], width: number, height: number): CropArea | null {
+  if (crops.length === 0) return null;
+  const x1 = Math.min(...crops.map((c) => c.x));
+  const y1 = Math.min(...crops.map((c) => c.y));
+  const x2 = Math.max(...crops.map((c) => c.x + c.width));
+  const y2 = Math.max(...crops.map((c) => c.y + c.height));
+  const crop = {
+    width: Math.min(width, x2 - x1) & ~1,
+    height: Math.min(height, y2 - y1) & ~1,
+    x: Math.max(0, x1) & ~1,
+    y: Math.max(0, y1) & ~1,
+  };
+  const trimmed = 1 - crop.width / width > MIN_CROP_RATIO || 1 - crop.height / height > MIN_CROP_RATIO;
+  return trimmed && crop.width > 0 && crop.height > 0 ? crop : null;
+}
+
+// VFR phone footage averages slightly off its nominal rate; snap to the closest broadcast rate
+function standardFrameRate(average: number | null) {
+  const target = average ?? 30;
+  const value = (rate: string) => {
+    const [num, den = '1'] = rate.split('/');
+    return Number(num) / Number(den);
+  };
+  return STANDARD_FRAME_RATES.reduce((best, rate) =>
+    Math.abs(value(rate) - target) < Math.abs(value(best) - target) ? rate : best
+  );
+}
@@ -0,0 +1,119 @@
+import { inferExt } from './hlsTranscoder';
+import type { MediaProbe } from './mediaProbe';
+import type { TranscoderSession } from './transcoderSession';
+
+/** One zoom level: `data` holds a min and a max per bucket of `samplesPerPeak` samples, 8-bit */
+export type WaveformLevel = {
+  samplesPerPeak: number;
+  length: number; // buckets
+  data: number[];
+};
+
+/** The peaks file stored with the outputs (`transcoding_jobs.waveform_url`), finest level first */
+export type WaveformPeaks = {
+  version: 1;
+  sampleRate: number;
+  durationSec: number;
+  bits: 8;
+  levels: WaveformLevel[];
+};
+
+export type WaveformOutput = {
+  files: Record<string, Uint8Array>;
+  jsonName: string;
+};
+
+// Mono 8 kHz keeps the envelope of speech and music, and is small enough to decode in windows
+const SAMPLE_RATE = 8000;
+// Seconds of PCM held in the FS at once, about 10 MB
+const WINDOW_SEC = 600;
+// Buckets of the finest level whatever the duration; each coarser level merges ZOOM_FACTOR of them
+const FINEST_PEAKS = 4096;
+const ZOOM_FACTOR = 4;
+const LEVELS = 3;
+
+/**
+ * Decodes the default (or first) audio track to mono PCM and reduces it to min/max peaks at a few
+ * zoom levels. The source is decoded in windows so long sources never hold their whole PCM.
+ */
+export async function generateWaveform(
+  ff: TranscoderSession,
+  media: Blob,
+  probe: MediaProbe,
+  onProgress?: (ratio: number) => void
+): Promise<WaveformOutput> {
+  const audioStreams = probe.streams.filter((st) => st.type === 'audio');
+  const stream = audioStreams.find((st) => st.isDefault) ?? audioStreams[0];
+  if (!stream) throw new Error('Source has no audio for a waveform');
+  const duration = probe.durationSec ?? 0;
+  if (duration <= 0) throw new Error('Source duration is unknown');
+
+  const samplesPerPeak = Math.max(1, Math.ceil((duration * SAMPLE_RATE) / FINEST_PEAKS));
+  const finest: number[] = [];
+  let min = 0;
+  let max = 0;
+  let count = 0;
+
+  const inputFile = await ff.mountInput(media, `waveform.${inferExt(media.type) || 'mp4'}`);
+  const pcmFile = 'waveform.pcm';
+  try {
+    for (let start = 0; start < duration; start += WINDOW_SEC) {
+      await ff.exec([
+        '-hide_banner',
+        '-ss', start.toFixed(3),
+        '-t', String(WINDOW_SEC),
+        '-i', inputFile,
+        '-map', `0:a:${stream.typeIndex}`,
+        '-ac', '1',
+        '-ar', String(SAMPLE_RATE),
+        '-f', 's16le',
+        '-y', pcmFile,
+      ]);
+      const pcm = (await ff.readFile(pcmFile)) as Uint8Array;
+      await ff.deleteFile(pcmFile);
+
+      // Buckets run on across windows, the sample count decides where one ends
+      const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+      for (let i = 0; i + 1 < pcm.byteLength; i += 2) {
+        const sample = view.getInt16(i, true);
+        if (count === 0 || sample < min) min = sample;
+        if (count === 0 || sample > max) max = sample;
+        if (++count === samplesPerPeak) {
+          finest.push(to8Bit(min), to8Bit(max));
+          count = 0;
+        }
+      }
+      onProgress?.(Math.min(0.99, (start + WINDOW_SEC) / duration));
+    }
+  } finally {
+    await ff.unmountInput(inputFile);
+  }
+  if (count > 0) finest.push(to8Bit(min), to8Bit(max));
+  if (finest.length === 0) throw new Error('Failed to decode audio for the waveform');
+
+  const levels: WaveformLevel[] = [{ samplesPerPeak, length: finest.length / 2, data: finest }];
+  while (levels.length < LEVELS) {
+    const previous = levels[levels.length - 1];
+    const data: number[] = [];
+    for (let i = 0; i < previous.data.length; i += ZOOM_FACTOR * 2) {
+      const group = previous.data.slice(i, i + ZOOM_FACTOR * 2);
+      data.push(Math.min(...group.filter((_, j) => j % 2 === 0)), Math.max(...group.filter((_, j) => j % 2 === 1)));
+    }
+    levels.push({ samplesPerPeak: previous.samplesPerPeak * ZOOM_FACTOR, length: data.length / 2, data });
+  }
+
+  const peaks: WaveformPeaks = { version: 1, sampleRate: SAMPLE_RATE, durationSec: duration, bits: 8, levels };
+  const jsonName = 'waveform.json';
+  onProgress?.(1);
+  return { files: { [jsonName]: new TextEncoder().encode(JSON.stringify(peaks)) }, jsonName };
+}
+
+/** The level with the fewest buckets that still has at least `buckets` of them, else the finest */
+export function pickWaveformLevel(peaks: WaveformPeaks, buckets: number) {
+  const sufficient = peaks.levels.filter((level) => level.length >= buckets);
+  return sufficient.length > 0 ? sufficient[sufficient.length - 1] : peaks.levels[0];
+}
+
+function to8Bit(sample: number) {
+  return Math.max(-128, Math.min(127, Math.round(sample / 256)));
+}
@@ -0,0 +1,96 @@
+export type VttCue = {
+  start: number; // seconds
+  end: number;
+  settings?: string; // cue settings after the end timestamp, e.g. "line:90%"
+  text: string;
+};
+
+export type SegmentedVtt = {
+  playlist: string;
+  segments: Record<string, string>;
+};
+
+/**
+ * Parses WebVTT text into cues. NOTE, STYLE and REGION blocks are dropped.
+ */
+export function parseWebVtt(text: string): VttCue[] {
+  const cues: VttCue[] = [];
+  const blocks = text.replace(/^\uFEFF/, '').split(/\r?\n\r?\n+/);
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/).filter((l) => l.length > 0);
+    const timingIndex = lines.findIndex((l) => l.includes('-->'));
+    if (timingIndex === -1) continue;
+    const m = lines[timingIndex].match(/^\s*([\d:.,]+)\s+-->\s+([\d:.,]+)\s*(.*)$/);
+    if (!m) continue;
+    const start = parseTimestamp(m[1]);
+    const end = parseTimestamp(m[2]);
+    if (start === null || end === null || end <= start) continue;
+    cues.push({
+      start,
+      end,
+      settings: m[3] || undefined,
+      text: lines.slice(timingIndex + 1).join('\n'),
+    });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export function parseTimestamp(value: string): number | null {
+  const m = value.trim().replace(',', '.').match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (!m) return null;
+  return Number(m[1] ?? 0) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+}
+
+export function formatTimestamp(seconds: number) {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+export function serializeWebVtt(cues: VttCue[], header: string[] = []) {
+  const lines = ['WEBVTT', ...header, ''];
+  for (const cue of cues) {
+    lines.push(
+      `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}${cue.settings ? ` ${cue.settings}` : ''}`,
+      cue.text,
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Splits cues into HLS WebVTT segments aligned with the media segments. A cue spanning a
+ * boundary is repeated in every segment it overlaps, as players de-duplicate identical cues.
+ */
+export function segmentWebVtt(
+  cues: VttCue[],
+  { segmentDuration, totalDuration, prefix }: { segmentDuration: number; totalDuration: number; prefix: string }
+): SegmentedVtt {
+  const duration = Math.max(totalDuration, cues.reduce((a, c) => Math.max(a, c.end), 0));
+  const count = Math.max(1, Math.ceil(duration / segmentDuration));
+  const segments: Record<string, string> = {};
+  const playlist = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${Math.ceil(segmentDuration)}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+  ];
+
+  for (let i = 0; i < count; i++) {
+    const from = i * segmentDuration;
+    const to = Math.min(duration, from + segmentDuration);
+    const name = `${prefix}_${String(i).padStart(3, '0')}.vtt`;
+    const inSegment = cues.filter((c) => c.start < to && c.end > from);
+    // fMP4 media timestamps start at zero, so local and media time coincide
+    segments[name] = serializeWebVtt(inSegment, ['X-TIMESTAMP-MAP=MPEGTS:0,LOCAL:00:00:00.000']);
+    playlist.push(`#EXTINF:${(to - from).toFixed(3)},`, name);
+  }
+
+  playlist.push('#EXT-X-ENDLIST', '');
+  return { playlist: playlist.join('\n'), segments };
+}
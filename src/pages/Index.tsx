@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Auth } from "@/components/Auth";
 import { FileUpload } from "@/components/FileUpload";
 import { BulkUpload } from "@/components/BulkUpload";
+import { BrandingKits } from "@/components/BrandingKits";
 import { JobQueue } from "@/components/JobQueue";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -79,9 +80,10 @@ const Index = () => {
 
         {/* Upload Section */}
         <Tabs defaultValue="single" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="single">Single Upload</TabsTrigger>
             <TabsTrigger value="bulk">Bulk Upload</TabsTrigger>
+            <TabsTrigger value="branding">Branding</TabsTrigger>
           </TabsList>
           <TabsContent value="single" className="mt-6">
             <FileUpload onUploadComplete={() => setRefreshKey((prev) => prev + 1)} />
@@ -89,6 +91,9 @@ const Index = () => {
           <TabsContent value="bulk" className="mt-6">
             <BulkUpload onUploadComplete={() => setRefreshKey((prev) => prev + 1)} />
           </TabsContent>
+          <TabsContent value="branding" className="mt-6">
+            <BrandingKits />
+          </TabsContent>
         </Tabs>
 
         {/* Job Queue */}
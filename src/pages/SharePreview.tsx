@@ -3,25 +3,54 @@ import videojs from "video.js";
 import "video.js/dist/video-js.css";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Play, Pause, Maximize } from "lucide-react";
+import { Play, Pause, Maximize, Captions, CaptionsOff } from "lucide-react";
+import { findThumbnail } from "@/lib/thumbnails";
+import { useThumbnails } from "@/hooks/use-thumbnails";
+import { ThumbnailTooltip } from "@/components/ThumbnailTooltip";
+import { clearKeyLicenseUrl, clearKeySystems, enableEme, onKeyRequest } from "@/lib/keyRequests";
 
 const getParam = (key: string) => new URLSearchParams(window.location.search).get(key) || "";
 const getMimeType = (url: string) => {
   const lower = url.toLowerCase();
   if (lower.endsWith(".m3u8")) return "application/x-mpegURL";
+  if (lower.endsWith(".mpd")) return "application/dash+xml";
   if (lower.endsWith(".mp4") || lower.endsWith(".mov")) return "video/mp4";
   if (lower.endsWith(".webm")) return "video/webm";
   if (lower.endsWith(".mkv")) return "video/x-matroska";
   return "application/x-mpegURL";
 };
 
+type TextTrackListLike = ArrayLike<{ id: string; kind: string; label: string; language: string; mode: string }> & {
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+};
+
+const isCaptionKind = (kind: string) => kind === "subtitles" || kind === "captions";
+
 export default function SharePreview() {
   const src = useMemo(() => decodeURIComponent(getParam("src")), []);
   const title = useMemo(() => decodeURIComponent(getParam("title") || "Shared Preview"), []);
+  const thumbsUrl = useMemo(() => decodeURIComponent(getParam("thumbs")), []);
+  const posterUrl = useMemo(() => decodeURIComponent(getParam("poster")), []);
+  const shareToken = useMemo(() => getParam("token"), []);
+  const jobId = useMemo(() => getParam("job"), []);
+  const thumbnails = useThumbnails(thumbsUrl);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const playerRef = useRef<any>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [captionLabels, setCaptionLabels] = useState<string[]>([]);
+  const [activeCaption, setActiveCaption] = useState(-1);
+  const [hover, setHover] = useState<{ time: number; left: number } | null>(null);
+
+  // Encrypted outputs: present the share token to the key-delivery function
+  useEffect(() => {
+    if (!shareToken) return;
+    return onKeyRequest((options) => ({
+      ...options,
+      uri: `${options.uri}${options.uri.includes("?") ? "&" : "?"}token=${encodeURIComponent(shareToken)}`,
+    }));
+  }, [shareToken]);
 
   useEffect(() => {
     if (!videoRef.current || !src) return;
@@ -32,20 +61,60 @@ export default function SharePreview() {
       preload: "auto",
       fluid: true,
       responsive: true,
-      sources: [{ src, type: getMimeType(src) }],
+      poster: posterUrl || undefined,
     });
 
     playerRef.current = player;
 
+    // CENC-protected DASH: the share token authorizes ClearKey license requests
+    const type = getMimeType(src);
+    if (shareToken && jobId && type === "application/dash+xml") {
+      enableEme(player);
+      player.src({ src, type, keySystems: clearKeySystems(clearKeyLicenseUrl(jobId, shareToken)) });
+    } else {
+      player.src({ src, type });
+    }
+
     player.on("play", () => setIsPlaying(true));
     player.on("pause", () => setIsPlaying(false));
 
     document.title = `${title} – Preview`;
 
+    // Track the pointer over the built-in progress bar to drive the thumbnail preview
+    const progressEl = player.getChild("ControlBar")?.getChild("ProgressControl")?.el() as HTMLElement | undefined;
+    const onProgressHover = (e: MouseEvent) => {
+      if (!progressEl || !videoRef.current) return;
+      const bar = progressEl.getBoundingClientRect();
+      const frame = videoRef.current.getBoundingClientRect();
+      const ratio = Math.min(1, Math.max(0, (e.clientX - bar.left) / bar.width));
+      setHover({
+        time: ratio * (player.duration() || 0),
+        left: (e.clientX - frame.left) / frame.width,
+      });
+    };
+    const onProgressLeave = () => setHover(null);
+    progressEl?.addEventListener("mousemove", onProgressHover);
+    progressEl?.addEventListener("mouseleave", onProgressLeave);
+
+    const textTracks = player.textTracks() as unknown as TextTrackListLike;
+    const syncCaptions = () => {
+      const captions = Array.from(textTracks).filter((t) => isCaptionKind(t.kind));
+      setCaptionLabels(captions.map((t, i) => t.label || t.language || `Subtitles ${i + 1}`));
+      setActiveCaption(captions.findIndex((t) => t.mode === "showing"));
+    };
+    textTracks.addEventListener("addtrack", syncCaptions);
+    textTracks.addEventListener("removetrack", syncCaptions);
+    textTracks.addEventListener("change", syncCaptions);
+
     return () => {
+      progressEl?.removeEventListener("mousemove", onProgressHover);
+      progressEl?.removeEventListener("mouseleave", onProgressLeave);
+      textTracks.removeEventListener("addtrack", syncCaptions);
+      textTracks.removeEventListener("removetrack", syncCaptions);
+      textTracks.removeEventListener("change", syncCaptions);
       if (player && !player.isDisposed()) player.dispose();
     };
-  }, [src, title]);
+  }, [src, title, posterUrl, shareToken, jobId]);
 
   const togglePlay = () => {
     if (!playerRef.current) return;
@@ -53,6 +122,18 @@ export default function SharePreview() {
     else playerRef.current.play();
   };
 
+  // Cycles off -> first track -> ... -> last track -> off
+  const cycleCaptions = () => {
+    if (!playerRef.current) return;
+    const captions = Array.from(playerRef.current.textTracks() as TextTrackListLike).filter((t) =>
+      isCaptionKind(t.kind)
+    );
+    const next = activeCaption + 1 < captions.length ? activeCaption + 1 : -1;
+    captions.forEach((t, i) => {
+      t.mode = i === next ? "showing" : "disabled";
+    });
+  };
+
   const toggleFullscreen = () => {
     if (!playerRef.current) return;
     if (playerRef.current.isFullscreen()) playerRef.current.exitFullscreen();
@@ -81,14 +162,31 @@ export default function SharePreview() {
               {isPlaying ? <Pause className="w-4 h-4 mr-1"/> : <Play className="w-4 h-4 mr-1"/>}
               {isPlaying ? "Pause" : "Play"}
             </Button>
+            {captionLabels.length > 0 && (
+              <Button size="sm" variant="outline" onClick={cycleCaptions}>
+                {activeCaption >= 0 ? <Captions className="w-4 h-4 mr-1"/> : <CaptionsOff className="w-4 h-4 mr-1"/>}
+                {activeCaption >= 0 ? captionLabels[activeCaption] : "CC Off"}
+              </Button>
+            )}
             <Button size="sm" variant="outline" onClick={toggleFullscreen}>
               <Maximize className="w-4 h-4" />
             </Button>
           </div>
         </header>
 
-        <div className="rounded-lg overflow-hidden bg-black">
-          <video ref={videoRef} className="video-js vjs-big-play-centered w-full" playsInline />
+        <div className="relative">
+          <div className="rounded-lg overflow-hidden bg-black">
+            <video ref={videoRef} className="video-js vjs-big-play-centered w-full" playsInline />
+          </div>
+          {/* Positioned above the control bar */}
+          {hover && thumbnails.length > 0 && (() => {
+            const cue = findThumbnail(thumbnails, hover.time);
+            return cue && (
+              <div className="absolute inset-x-0 bottom-10">
+                <ThumbnailTooltip cue={cue} left={hover.left} />
+              </div>
+            );
+          })()}
         </div>
 
         <section className="text-sm text-muted-foreground">
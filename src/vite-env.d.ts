@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FFMPEG_CORE_SOURCE?: "bundled" | "cdn";
+}
@@ -7,6 +7,7 @@ const corsHeaders = {
 };
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const OUTPUT_FORMATS = ["hls", "dash", "cmaf"];
 
 serve(async (req) => {
   try {
@@ -78,7 +79,7 @@ serve(async (req) => {
     // Verify all jobs belong to user and are pending
     const { data: jobs, error: jobError } = await userClient
       .from("transcoding_jobs")
-      .select("id,status")
+      .select("id,status,output_format")
       .in("id", jobIds);
 
     if (jobError || !jobs || jobs.length !== jobIds.length) {
@@ -99,6 +100,17 @@ serve(async (req) => {
       });
     }
 
+    const unsupportedJobs = jobs.filter(j => !OUTPUT_FORMATS.includes(j.output_format));
+    if (unsupportedJobs.length > 0) {
+      return new Response(JSON.stringify({
+        error: `Unsupported output format (use ${OUTPUT_FORMATS.join(", ")})`,
+        unsupportedJobs: unsupportedJobs.map(j => j.id)
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     console.log(`bulk-transcode: user=${user.id} processing ${jobIds.length} jobs`);
 
     const transcodeUrl = `${supabaseUrl}/functions/v1/transcode`;
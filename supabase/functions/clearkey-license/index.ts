@@ -0,0 +1,142 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const hexToBase64Url = (hex: string) =>
+  btoa(String.fromCharCode(...hex.match(/../g)!.map((h) => parseInt(h, 16))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/**
+ * ClearKey license server for CENC-protected DASH/CMAF jobs.
+ * POST ?jobId=...[&token=...] with the EME license request ({ kids, type }) as body. Returns the
+ * JWK set for the requested key IDs to the job owner (Authorization header) or to anyone holding
+ * an unexpired share token for the job.
+ */
+serve(async (req) => {
+  try {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
+        status: 405,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return new Response(JSON.stringify({ error: "Server misconfiguration" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const jobId = params.get("jobId") ?? "";
+    const shareToken = params.get("token");
+    if (!UUID_REGEX.test(jobId)) {
+      return new Response(JSON.stringify({ error: "Invalid job ID format" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The license request is the JSON message generated by the browser CDM
+    let request: { kids?: unknown; type?: string } | null;
+    try {
+      request = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid license request" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const kids = Array.isArray(request?.kids) ? request.kids.filter((k): k is string => typeof k === "string") : [];
+    if (kids.length === 0) {
+      return new Response(JSON.stringify({ error: "License request lists no key IDs" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Keys are only readable with the service role (RLS without policies)
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: key } = await serviceClient
+      .from("content_keys")
+      .select("user_id,method,key_hex,kid_hex")
+      .eq("job_id", jobId)
+      .maybeSingle();
+    if (!key || key.method !== "sample-aes") {
+      return new Response(JSON.stringify({ error: "Key not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let authorized = false;
+    if (shareToken) {
+      const { data: share } = await serviceClient
+        .from("share_tokens")
+        .select("id")
+        .eq("job_id", jobId)
+        .eq("token", shareToken)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+      authorized = !!share;
+    } else {
+      const authHeader = req.headers.get("Authorization");
+      if (authHeader) {
+        const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+          global: { headers: { Authorization: authHeader } },
+        });
+        const { data } = await userClient.auth.getUser(authHeader.replace(/^Bearer\s+/i, ""));
+        authorized = !!data?.user && data.user.id === key.user_id;
+      }
+    }
+
+    if (!authorized) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Each job has a single key; only answer for the key IDs the player asked for
+    const kid = hexToBase64Url(key.kid_hex);
+    const keys = kids.includes(kid) ? [{ kty: "oct", kid, k: hexToBase64Url(key.key_hex) }] : [];
+    if (keys.length === 0) {
+      return new Response(JSON.stringify({ error: "Requested key IDs do not belong to this job" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`clearkey-license: issued license for job=${jobId}${shareToken ? " (share token)" : ""}`);
+
+    return new Response(JSON.stringify({ keys, type: request?.type ?? "temporary" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    console.error("clearkey-license fatal error:", err);
+    return new Response(JSON.stringify({ error: "Unexpected server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,232 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const METHODS = ["aes-128", "sample-aes"];
+// HLS players decrypt segment keys as AES-128 only; CENC needs an EME player, which only the
+// DASH manifest of DASH and CMAF jobs reaches
+const SAMPLE_AES_FORMATS = ["dash", "cmaf"];
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, "0")).join("");
+
+const hexToBytes = (hex: string) => new Uint8Array(hex.match(/../g)!.map((h) => parseInt(h, 16)));
+
+/**
+ * POST { jobId, method } (owner session): creates the job's content key on first call and returns
+ *   it to the browser transcoder together with the key URI to write into EXT-X-KEY and the
+ *   ClearKey license URI for DASH manifests.
+ * GET ?jobId=...[&token=...]: key delivery for players. Returns the raw 16-byte key to the job
+ *   owner (Authorization header) or to anyone holding an unexpired share token for the job.
+ */
+serve(async (req) => {
+  try {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return new Response(JSON.stringify({ error: "Server misconfiguration" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Keys are only readable with the service role (RLS without policies)
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Resolves the signed-in user from the Authorization header, if any
+    const getUser = async () => {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) return null;
+      const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const token = authHeader.replace(/^Bearer\s+/i, "");
+      const { data } = await userClient.auth.getUser(token);
+      return data?.user ?? null;
+    };
+
+    if (req.method === "GET") {
+      const params = new URL(req.url).searchParams;
+      const jobId = params.get("jobId") ?? "";
+      const shareToken = params.get("token");
+      if (!UUID_REGEX.test(jobId)) {
+        return new Response(JSON.stringify({ error: "Invalid job ID format" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: key } = await serviceClient
+        .from("content_keys")
+        .select("user_id,key_hex")
+        .eq("job_id", jobId)
+        .maybeSingle();
+      if (!key) {
+        return new Response(JSON.stringify({ error: "Key not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      let authorized = false;
+      if (shareToken) {
+        const { data: share } = await serviceClient
+          .from("share_tokens")
+          .select("id")
+          .eq("job_id", jobId)
+          .eq("token", shareToken)
+          .gt("expires_at", new Date().toISOString())
+          .maybeSingle();
+        authorized = !!share;
+      } else {
+        const user = await getUser();
+        authorized = !!user && user.id === key.user_id;
+      }
+
+      if (!authorized) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(hexToBytes(key.key_hex), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/octet-stream",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
+        status: 405,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let body: { jobId?: string; method?: string } | null;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const jobId = body?.jobId;
+    const method = body?.method;
+    if (!jobId || !UUID_REGEX.test(jobId)) {
+      return new Response(JSON.stringify({ error: "Invalid job ID format" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (!method || !METHODS.includes(method)) {
+      return new Response(JSON.stringify({ error: `Method must be one of ${METHODS.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Ownership check
+    const { data: job } = await serviceClient
+      .from("transcoding_jobs")
+      .select("id,user_id,output_format")
+      .eq("id", jobId)
+      .maybeSingle();
+    if (!job || job.user_id !== user.id) {
+      return new Response(JSON.stringify({ error: "Job not found or access denied" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (method === "sample-aes" && !SAMPLE_AES_FORMATS.includes(job.output_format)) {
+      return new Response(
+        JSON.stringify({ error: "SAMPLE-AES (CENC) needs a DASH or CMAF job; use AES-128 for HLS" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Re-transcodes of the same job reuse its key so existing links keep working
+    let { data: key } = await serviceClient
+      .from("content_keys")
+      .select("method,key_hex,iv_hex,kid_hex")
+      .eq("job_id", jobId)
+      .maybeSingle();
+
+    // Replacing the key would lock viewers out of everything encrypted with it
+    if (key && key.method !== method) {
+      return new Response(
+        JSON.stringify({ error: `Job is already encrypted with ${key.method}; keep that method to re-transcode it` }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!key) {
+      const { data: created, error: keyError } = await serviceClient
+        .from("content_keys")
+        .insert({
+          job_id: jobId,
+          user_id: user.id,
+          method,
+          key_hex: randomHex(16),
+          iv_hex: randomHex(16),
+          kid_hex: randomHex(16),
+        })
+        .select("method,key_hex,iv_hex,kid_hex")
+        .single();
+      if (keyError || !created) {
+        console.error("content-key: failed to store key:", keyError);
+        return new Response(JSON.stringify({ error: "Failed to create content key" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      key = created;
+    }
+
+    console.log(`content-key: issued ${method} key for user=${user.id} job=${jobId}`);
+
+    return new Response(
+      JSON.stringify({
+        method: key.method,
+        keyHex: key.key_hex,
+        ivHex: key.iv_hex,
+        kidHex: key.kid_hex,
+        keyUri: `${supabaseUrl}/functions/v1/content-key?jobId=${jobId}`,
+        licenseUri: `${supabaseUrl}/functions/v1/clearkey-license?jobId=${jobId}`,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    console.error("content-key fatal error:", err);
+    return new Response(JSON.stringify({ error: "Unexpected server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -7,6 +7,7 @@ const corsHeaders = {
 };
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const OUTPUT_FORMATS = ["hls", "dash", "cmaf"];
 
 // Simple in-memory rate limiter (per user)
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
@@ -102,7 +103,7 @@ serve(async (req) => {
     // Ownership + status check (RLS ensures user_id = auth.uid())
     const { data: job, error: jobError } = await userClient
       .from("transcoding_jobs")
-      .select("id,status")
+      .select("id,status,output_format")
       .eq("id", jobId)
       .maybeSingle();
 
@@ -120,6 +121,13 @@ serve(async (req) => {
       });
     }
 
+    if (!OUTPUT_FORMATS.includes(job.output_format)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported output format: ${job.output_format} (use ${OUTPUT_FORMATS.join(", ")})` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     console.log(`start-transcode: user=${user.id} job=${jobId} triggering transcode`);
 
     const transcodeUrl = `${supabaseUrl}/functions/v1/transcode`;
@@ -8,6 +8,104 @@ const corsHeaders = {
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
+type ClipRange = { start: number; end: number };
+
+// Shorter ranges would not hold a single frame of low frame rate sources
+const MIN_RANGE_SEC = 0.1;
+
+// Merged sources are converted to one format; this stands in until the sources are probed
+const DEFAULT_MERGE_FORMAT = { width: 1920, height: 1080, frameRate: 30 };
+
+// HLS timelines this long are split into chunks, as in the browser transcoder
+const CHUNKED_MIN_SEC = 300;
+
+/**
+ * Same rules as the browser transcoder: ranges are sorted, clamped to the source when its duration
+ * is known and merged where they overlap. An empty result keeps the whole source.
+ */
+function normalizeClipRanges(value: unknown, durationSec: number | null): ClipRange[] {
+  const end = durationSec ?? Infinity;
+  const sorted = (Array.isArray(value) ? value : [])
+    .filter((r) => Number.isFinite(r?.start) && Number.isFinite(r?.end))
+    .map((r) => ({ start: Math.max(0, r.start), end: Math.min(end, r.end) }))
+    .filter((r) => r.end - r.start >= MIN_RANGE_SEC)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: ClipRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+
+  const wholeSource = merged.length === 1 && merged[0].start === 0 && durationSec && merged[0].end >= durationSec;
+  return wholeSource ? [] : merged;
+}
+
+/**
+ * The edit of item 7: the span from the first in point to the last out point is decoded once,
+ * every kept range is trimmed from it and the ranges are concatenated into edited.mkv
+ */
+function clipEditArgs(input: string, ranges: ClipRange[], { video = true, audio = true } = {}) {
+  const origin = ranges[0].start;
+  const n = ranges.length;
+  const labels = (prefix: string) => ranges.map((_, i) => `[${prefix}${i}]`).join("");
+  const graph: string[] = [];
+  if (video) graph.push(`[0:v]split=${n}${labels("v")}`);
+  if (audio) graph.push(`[0:a]asplit=${n}${labels("a")}`);
+  ranges.forEach((range, i) => {
+    const trim = `start=${(range.start - origin).toFixed(3)}:end=${(range.end - origin).toFixed(3)}`;
+    if (video) graph.push(`[v${i}]trim=${trim},setpts=PTS-STARTPTS[c${i}]`);
+    if (audio) graph.push(`[a${i}]atrim=${trim},asetpts=PTS-STARTPTS[d${i}]`);
+  });
+  const segments = ranges.map((_, i) => `${video ? `[c${i}]` : ""}${audio ? `[d${i}]` : ""}`).join("");
+  graph.push(`${segments}concat=n=${n}:v=${video ? 1 : 0}:a=${audio ? 1 : 0}${video ? "[v]" : ""}${audio ? "[a]" : ""}`);
+
+  return [
+    "-ss", origin.toFixed(3),
+    "-to", ranges[n - 1].end.toFixed(3),
+    "-i", input,
+    "-filter_complex", graph.join(";"),
+    ...(video ? ["-map", "[v]", "-c:v", "libx264", "-crf", "18"] : []),
+    ...(audio ? ["-map", "[a]", "-c:a", "aac"] : []),
+    "edited.mkv",
+  ];
+}
+
+/**
+ * The join of item 8: every source is scaled and padded to one frame, converted to one frame rate
+ * and to stereo 48 kHz, then concatenated in play order into merged.mkv
+ */
+function concatSourcesArgs(inputs: string[], { width, height, frameRate } = DEFAULT_MERGE_FORMAT) {
+  const graph: string[] = [];
+  inputs.forEach((_, i) => {
+    graph.push(
+      `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frameRate},format=yuv420p[v${i}]`
+    );
+    graph.push(`[${i}:a]aformat=sample_rates=48000:channel_layouts=stereo[a${i}]`);
+  });
+  graph.push(`${inputs.map((_, i) => `[v${i}][a${i}]`).join("")}concat=n=${inputs.length}:v=1:a=1[v][a]`);
+
+  return [
+    ...inputs.flatMap((input) => ["-i", input]),
+    "-filter_complex", graph.join(";"),
+    "-map", "[v]", "-map", "[a]",
+    "-c:v", "libx264", "-crf", "18",
+    "-c:a", "aac",
+    "merged.mkv",
+  ];
+}
+
+/** Splits a timeline evenly into one chunk per worker; workers move each cut to the next keyframe */
+function planChunks(durationSec: number, workers: number) {
+  const length = durationSec / workers;
+  return Array.from({ length: workers }, (_, i) => ({
+    start: i * length,
+    end: i === workers - 1 ? durationSec : (i + 1) * length,
+  }));
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -110,7 +208,62 @@ serve(async (req) => {
     //    - Consider S3-compatible storage with multipart uploads
     //    - Implement storage tiering (hot/warm/cold)
     //
-    // 6. MONITORING & OPTIMIZATION:
+    // Items 6 to 8 are simulated below; item 9 is done by the browser transcoder today.
+    //
+    // 6. CHUNKED PARALLEL ENCODING:
+    //    Long sources are split at keyframes and every chunk is encoded by a different worker,
+    //    then stitched into one playlist per rendition (same scheme as the browser transcoder):
+    //    ```bash
+    //    # keyframe times of the source
+    //    ffmpeg -skip_frame nokey -i input.mp4 -map 0:v:0 -vf showinfo -f null -
+    //    # chunk N, video only; audio is encoded once as an alternate rendition
+    //    ffmpeg -ss <start> -t <duration> -i input.mp4 -map 0:v:0 -an ... -f hls chunkN/720p.m3u8
+    //    ```
+    //    Stitching keeps the first chunk's init segment, renumbers the segments and moof
+    //    sequence numbers, and shifts each chunk's tfdt to its start time on the source timeline.
+    //
+    // 7. CLIP RANGES:
+    //    Jobs with `clip_ranges` keep only those parts of the source, concatenated in order. The
+    //    span from the first in point to the last out point is decoded once and cut with trim:
+    //    ```bash
+    //    ffmpeg -ss <first start> -to <last end> -i input.mp4 -filter_complex \
+    //      "[0:v]split=2[v0][v1];[0:a]asplit=2[a0][a1];
+    //       [v0]trim=start=0:end=12,setpts=PTS-STARTPTS[c0];[a0]atrim=start=0:end=12,asetpts=PTS-STARTPTS[d0];
+    //       [v1]trim=start=40:end=55,setpts=PTS-STARTPTS[c1];[a1]atrim=start=40:end=55,asetpts=PTS-STARTPTS[d1];
+    //       [c0][d0][c1][d1]concat=n=2:v=1:a=1[v][a]" \
+    //      -map "[v]" -map "[a]" -c:v libx264 -crf 18 -c:a aac edited.mkv
+    //    ```
+    //    The ladder is then encoded from edited.mkv; subtitle cues are moved onto the edited timeline.
+    //
+    // 8. MERGED SOURCES:
+    //    Jobs with more than one entry in `source_files` join them in order before anything else.
+    //    Every input is scaled and padded to the largest frame, converted to the highest frame rate
+    //    and to stereo 48 kHz, then concatenated:
+    //    ```bash
+    //    ffmpeg -i a.mp4 -i b.mov -filter_complex \
+    //      "[0:v]scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=30,format=yuv420p[v0];
+    //       [1:v]scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=30,format=yuv420p[v1];
+    //       [0:a]aformat=sample_rates=48000:channel_layouts=stereo[a0];[1:a]aformat=sample_rates=48000:channel_layouts=stereo[a1];
+    //       [v0][a0][v1][a1]concat=n=2:v=1:a=1[v][a]" \
+    //      -map "[v]" -map "[a]" -c:v libx264 -crf 18 -c:a aac merged.mkv
+    //    ```
+    //    Sidecar captions of each source are shifted by the start of that source.
+    //
+    // 9. CHAPTERS:
+    //    Scene changes of the encoded timeline are scored on a downscaled copy:
+    //    ```bash
+    //    ffmpeg -i edited.mkv -an -sn -vf "scale=160:-2,select='gt(scene,0.4)',metadata=print:key=lavfi.scene_score" -f null -
+    //    ```
+    //    Audio-only timelines use the pauses instead (`-af silencedetect=noise=-35dB:d=1`).
+    //    About one chapter per five minutes is placed on the strongest cuts, at least half an
+    //    average chapter apart, with a 320px JPEG thumbnail each when there is video. Chapters are
+    //    stored in `chapters`, written to chapters.vtt (`chapters_vtt_url`) and added to every
+    //    media playlist (video, audio, I-frame and subtitles) as
+    //    `#EXT-X-DATERANGE:ID="chapter-1",CLASS="chapter",START-DATE=...,DURATION=...,X-TITLE="..."`
+    //    dated against `#EXT-X-PROGRAM-DATE-TIME:1970-01-01T00:00:00.000Z` on the first segment.
+    //    Every media playlist is also stored as `<name>.template` without the tags.
+    //
+    // 10. MONITORING & OPTIMIZATION:
     //    - Track transcode time per resolution
     //    - Monitor worker utilization
     //    - Alert on failed jobs
@@ -138,19 +291,111 @@ serve(async (req) => {
     const variants = [];
     let totalSize = 0;
 
+    // DASH jobs expose a single manifest.mpd; every representation lives inside it.
+    // CMAF jobs share one set of fMP4 segments between the HLS master and the DASH MPD.
+    const isDash = job.output_format === "dash";
+    const isCmaf = job.output_format === "cmaf";
+    const outputBase = `https://jemnukjewyzrelauapfp.supabase.co/storage/v1/object/public/transcoded-outputs/${job.user_id}/${job.id}`;
+    const manifestName = isDash ? "manifest.mpd" : "master.m3u8";
+
+    // Merged jobs read every listed source, in order, instead of input_file_url alone (item 8).
+    // media_info is the probe of the merged timeline when the browser got that far.
+    const sourceFiles: { url: string }[] = Array.isArray(job.source_files) ? job.source_files : [];
+    const merged = sourceFiles.length > 1;
+    if (merged) {
+      const format =
+        job.media_info?.width && job.media_info?.height
+          ? {
+              width: job.media_info.width,
+              height: job.media_info.height,
+              frameRate: Math.round(job.media_info.frameRate ?? DEFAULT_MERGE_FORMAT.frameRate),
+            }
+          : DEFAULT_MERGE_FORMAT;
+      const args = concatSourcesArgs(sourceFiles.map((file) => file.url), format);
+      console.log(`Merging ${sourceFiles.length} sources: ffmpeg ${args.join(" ")}`);
+      // In production: a worker probes the sources and runs the join; simulate its processing time
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await supabase.from("transcoding_jobs").update({ progress: 15 }).eq("id", jobId);
+    }
+
+    // Only the kept ranges are encoded (item 7): the edit is rendered once and the ladder reads it
+    const sourceDuration: number | null = job.media_info?.durationSec ?? null;
+    const clipRanges = normalizeClipRanges(job.clip_ranges, sourceDuration);
+    if (clipRanges.length > 0) {
+      const args = clipEditArgs(merged ? "merged.mkv" : job.input_file_url, clipRanges, {
+        // The merged timeline always has both
+        video: merged || (job.media_info?.hasVideo ?? true),
+        audio: merged || (job.media_info?.hasAudio ?? true),
+      });
+      console.log(`Cutting ${clipRanges.length} clip ranges: ffmpeg ${args.join(" ")}`);
+      // In production: a worker runs the edit; simulate its processing time
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await supabase.from("transcoding_jobs").update({ progress: 20 }).eq("id", jobId);
+    }
+
+    // Renditions are sized from the duration of the encoded timeline: the kept ranges, or the
+    // source when the browser has probed it (media_info); without either the sizes stay rough guesses
+    const outputDuration =
+      clipRanges.length > 0 ? clipRanges.reduce((a, r) => a + (r.end - r.start), 0) : sourceDuration;
+
+    // Long HLS timelines are encoded in chunks on parallel workers, then stitched (item 6)
+    const chunkWorkers = Math.max(1, Number(Deno.env.get("TRANSCODE_CHUNK_WORKERS") ?? 4));
+    const chunks =
+      job.output_format === "hls" && outputDuration !== null && outputDuration >= CHUNKED_MIN_SEC
+        ? planChunks(outputDuration, chunkWorkers)
+        : null;
+    if (chunks) console.log(`Encoding every rendition in ${chunks.length} chunks on parallel workers`);
+
     // Simulate processing each resolution
     for (let i = 0; i < resolutions.length; i++) {
       const res = resolutions[i];
+
+      // Cancellation is requested by setting the job status; stop before the next rendition
+      const { data: current } = await supabase
+        .from("transcoding_jobs")
+        .select("status")
+        .eq("id", jobId)
+        .single();
+      if (current?.status === "cancelled") {
+        console.log(`Transcoding cancelled for job: ${jobId}`);
+        return new Response(
+          JSON.stringify({
+            success: false,
+            jobId,
+            message: "Transcoding cancelled",
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
       const progress = 20 + (i + 1) * (70 / resolutions.length);
       
       console.log(`Processing ${res.name}...`);
       
-      // In production: transcode this resolution
-      // Simulate processing time
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      
-      // Simulate file size (in bytes)
-      const estimatedSize = Math.floor(Math.random() * 500000000 + 100000000);
+      let estimatedSize: number;
+      if (chunks) {
+        // In production: encode this resolution's chunks on separate workers, then stitch them
+        // Simulate processing time, chunks run concurrently
+        const chunkSizes = await Promise.all(
+          chunks.map(async (chunk) => {
+            await new Promise((resolve) => setTimeout(resolve, 1000 / chunks.length));
+            return Math.floor((res.bitrate / 8) * (chunk.end - chunk.start));
+          })
+        );
+        // Size of the stitched rendition (in bytes)
+        estimatedSize = chunkSizes.reduce((a, size) => a + size, 0);
+      } else {
+        // In production: transcode this resolution
+        // Simulate processing time
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+
+        // Simulate file size (in bytes), a merged timeline is about as long as its sources together
+        estimatedSize =
+          outputDuration !== null
+            ? Math.floor((res.bitrate / 8) * outputDuration)
+            : Math.floor((Math.random() * 500000000 + 100000000) * Math.max(1, sourceFiles.length));
+      }
       totalSize += estimatedSize;
 
       variants.push({
@@ -158,8 +403,9 @@ serve(async (req) => {
         width: res.width,
         height: res.height,
         bitrate: res.bitrate,
-        url: `https://jemnukjewyzrelauapfp.supabase.co/storage/v1/object/public/transcoded-outputs/${job.user_id}/${job.id}/${res.name}.m3u8`,
+        url: isDash ? `${outputBase}/${manifestName}` : `${outputBase}/${res.name}.m3u8`,
         size_bytes: estimatedSize,
+        ...(isCmaf ? { dash_url: `${outputBase}/manifest.mpd` } : {}),
       });
 
       await supabase
@@ -172,8 +418,8 @@ serve(async (req) => {
         .eq("id", jobId);
     }
 
-    // Generate master playlist URL
-    const outputUrl = `https://jemnukjewyzrelauapfp.supabase.co/storage/v1/object/public/transcoded-outputs/${job.user_id}/${job.id}/master.m3u8`;
+    // Generate master playlist / manifest URL
+    const outputUrl = `${outputBase}/${manifestName}`;
 
     await supabase
       .from("transcoding_jobs")
@@ -185,7 +431,8 @@ serve(async (req) => {
         total_size_bytes: totalSize,
         estimated_duration: Math.floor((Date.now() - new Date(job.created_at).getTime()) / 1000),
       })
-      .eq("id", jobId);
+      .eq("id", jobId)
+      .neq("status", "cancelled");
 
     console.log(`Transcoding completed for job: ${jobId}`);
 
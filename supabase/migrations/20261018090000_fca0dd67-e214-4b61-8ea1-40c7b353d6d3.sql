@@ -0,0 +1,3 @@
+-- Store source technical metadata extracted by the media probe
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN media_info jsonb;
@@ -0,0 +1,3 @@
+-- Sidecar subtitle/caption files (SRT/VTT) uploaded alongside the source media
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN caption_sources jsonb NOT NULL DEFAULT '[]'::jsonb;
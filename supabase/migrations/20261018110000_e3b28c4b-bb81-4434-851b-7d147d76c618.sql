@@ -0,0 +1,4 @@
+-- Scrubbing previews: WebVTT thumbnails track and the sprite sheets it references
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN thumbnails_vtt_url text,
+ADD COLUMN thumbnail_sprite_urls text[];
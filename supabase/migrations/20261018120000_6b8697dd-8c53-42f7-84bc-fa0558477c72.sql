@@ -0,0 +1,4 @@
+-- Poster frame: largest JPEG for players plus every extracted size/format
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN poster_url text,
+ADD COLUMN poster_variants jsonb;
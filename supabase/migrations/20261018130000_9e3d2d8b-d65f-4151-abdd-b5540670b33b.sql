@@ -0,0 +1,50 @@
+-- Optional HLS segment encryption per job
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN encryption text NOT NULL DEFAULT 'none'
+  CHECK (encryption IN ('none', 'aes-128', 'sample-aes'));
+
+-- Content keys, one per job. RLS is enabled without policies: only the content-key edge
+-- function (service role) can read or write them.
+CREATE TABLE public.content_keys (
+  job_id UUID NOT NULL PRIMARY KEY REFERENCES public.transcoding_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  method TEXT NOT NULL,
+  key_hex TEXT NOT NULL,
+  iv_hex TEXT NOT NULL,
+  kid_hex TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.content_keys ENABLE ROW LEVEL SECURITY;
+
+-- Share tokens let viewers without an account fetch keys for one job
+CREATE TABLE public.share_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.transcoding_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.share_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share tokens"
+ON public.share_tokens
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create share tokens for their own jobs"
+ON public.share_tokens
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.transcoding_jobs j WHERE j.id = job_id AND j.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own share tokens"
+ON public.share_tokens
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_share_tokens_job ON public.share_tokens(job_id);
@@ -0,0 +1,4 @@
+-- Progress of a chunked browser transcode, so a reloaded page can resume after the last
+-- chunk whose segments were stored
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN checkpoint jsonb;
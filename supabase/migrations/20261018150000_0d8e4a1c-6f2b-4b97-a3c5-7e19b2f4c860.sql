@@ -0,0 +1,5 @@
+-- Optional two-pass EBU R128 loudness normalization: requested targets (null = off) and the
+-- measured before/after values of the main audio track
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN loudness_target jsonb,
+ADD COLUMN loudness_report jsonb;
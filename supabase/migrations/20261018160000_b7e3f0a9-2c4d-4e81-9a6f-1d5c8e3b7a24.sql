@@ -0,0 +1,5 @@
+-- Declarative video filter pipeline: requested filters (null = scaling only) and the chain that
+-- was chosen from the source analysis, kept for reproducible and resumed encodes
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN video_filters jsonb,
+ADD COLUMN video_filter_pipeline jsonb;
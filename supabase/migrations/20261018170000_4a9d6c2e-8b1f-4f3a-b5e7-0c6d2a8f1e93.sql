@@ -0,0 +1,49 @@
+-- Branding kits: a watermark logo with its placement and optional intro/outro bumpers. Assets
+-- are uploaded to source-files under the owner's folder.
+CREATE TABLE public.branding_kits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  logo_url TEXT,
+  logo_position TEXT NOT NULL DEFAULT 'bottom-right'
+    CHECK (logo_position IN ('top-left', 'top-right', 'bottom-left', 'bottom-right')),
+  logo_opacity REAL NOT NULL DEFAULT 0.8 CHECK (logo_opacity > 0 AND logo_opacity <= 1),
+  logo_scale REAL NOT NULL DEFAULT 0.12 CHECK (logo_scale > 0 AND logo_scale <= 0.5),
+  intro_url TEXT,
+  outro_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.branding_kits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own branding kits"
+ON public.branding_kits
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own branding kits"
+ON public.branding_kits
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own branding kits"
+ON public.branding_kits
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own branding kits"
+ON public.branding_kits
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_branding_kits_updated_at
+BEFORE UPDATE ON public.branding_kits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_branding_kits_user ON public.branding_kits(user_id);
+
+-- The kit a job is branded with, copied when the job is created (null = no branding)
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN branding jsonb;
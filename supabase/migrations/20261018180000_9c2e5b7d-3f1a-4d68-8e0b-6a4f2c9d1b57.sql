@@ -0,0 +1,4 @@
+-- In/out points picked in the upload editor: an array of { start, end } seconds on the source
+-- timeline. Only these ranges are transcoded, concatenated in order; null keeps the whole source.
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN clip_ranges jsonb;
@@ -0,0 +1,4 @@
+-- Merged jobs: the uploaded sources in play order, each { url, filename, sizeBytes }. They are
+-- normalized to a common format and concatenated into one asset; input_file_url is the first.
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN source_files jsonb;
@@ -0,0 +1,4 @@
+-- Waveform peaks (min/max per bucket at a few zoom levels) stored with the outputs, drawn
+-- behind the preview scrubber
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN waveform_url text;
@@ -0,0 +1,5 @@
+-- Chapters derived from scene changes: start and end time, title and thumbnail URL per chapter,
+-- titles editable after the job completes; also exported as a WebVTT chapters track
+ALTER TABLE public.transcoding_jobs
+ADD COLUMN chapters jsonb,
+ADD COLUMN chapters_vtt_url text;
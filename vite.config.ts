@@ -3,16 +3,43 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Cross-origin isolation enables SharedArrayBuffer for the multi-threaded ffmpeg core.
+// `credentialless` keeps Supabase Storage media and images loading without CORP headers.
+const crossOriginIsolationHeaders = {
+  "Cross-Origin-Opener-Policy": "same-origin",
+  "Cross-Origin-Embedder-Policy": "credentialless",
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    headers: crossOriginIsolationHeaders,
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
-    },
+    alias: [
+      { find: "@", replacement: path.resolve(__dirname, "./src") },
+      // @ffmpeg/core-mt 0.12.6 does not export its pthread worker script
+      {
+        find: /^@ffmpeg\/core-mt\/worker(?=\?|$)/,
+        replacement: path.resolve(__dirname, "./node_modules/@ffmpeg/core-mt/dist/esm/ffmpeg-core.worker.js"),
+      },
+    ],
+  },
+  build: {
+    // ffmpeg-core scripts are loaded by URL from workers, a data: URL would lose the page origin
+    assetsInlineLimit: (filePath: string) => (filePath.includes("ffmpeg-core") ? false : undefined),
+  },
+  // The transcoder worker starts FFmpeg's own worker, which needs ES module workers
+  worker: {
+    format: "es",
+  },
+  optimizeDeps: {
+    exclude: ["@ffmpeg/ffmpeg", "@ffmpeg/util"],
   },
 }));